@@ -0,0 +1,246 @@
+/**
+ * Request body capture tests
+ * Tests capture before and after the body parser, content-type filtering,
+ * field redaction and truncation
+ */
+
+import express, { Express } from 'express';
+import request from 'supertest';
+import { createRequestLogger, DEFAULT_REDACTED_BODY_FIELDS, LogEntry, LoggerConfig, Transport } from '../middleware';
+import { redactBodyFields } from '../middleware/body';
+
+/**
+ * Transport that keeps entries and formatted lines in memory.
+ */
+function memoryTransport(format?: Transport['format']): Transport & { entries: LogEntry[]; lines: string[] } {
+  const entries: LogEntry[] = [];
+  const lines: string[] = [];
+  return {
+    format,
+    entries,
+    lines,
+    write: (entry, formatted) => {
+      entries.push(entry);
+      lines.push(formatted);
+    },
+    flush: async () => undefined,
+    close: async () => undefined,
+  };
+}
+
+describe('Body Capture Tests', () => {
+  let app: Express;
+  let transport: ReturnType<typeof memoryTransport>;
+
+  /**
+   * Mounts the logger before or after express.json() (or with no parser),
+   * and a route echoing the parsed body.
+   */
+  function useLogger(config: LoggerConfig, parser: 'before' | 'after' | 'none' = 'before'): void {
+    const logger = createRequestLogger({ captureBody: true, transports: [transport], ...config });
+
+    if (parser === 'after') {
+      app.use(express.json(), express.urlencoded({ extended: false }), express.text());
+      app.use(logger);
+    } else {
+      app.use(logger);
+      if (parser === 'before') {
+        app.use(express.json(), express.urlencoded({ extended: false }), express.text());
+      }
+    }
+    app.post('/api/books', (req, res) => res.status(201).json({ received: req.body ?? null }));
+  }
+
+  beforeEach(() => {
+    app = express();
+    transport = memoryTransport();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Capture', () => {
+    it('should not capture bodies by default', async () => {
+      app.use(createRequestLogger({ transports: [transport] }));
+      app.use(express.json());
+      app.post('/api/books', (req, res) => res.status(201).json(req.body));
+
+      await request(app).post('/api/books').send({ title: 'Dune' }).expect(201);
+
+      expect(transport.entries[0].body).toBeUndefined();
+    });
+
+    it.each(['before', 'after', 'none'] as const)('should capture JSON bodies (logger mounted relative to the body parser: %s)', async (parser) => {
+      useLogger({}, parser);
+
+      const response = await request(app).post('/api/books').send({ title: 'Dune', author: 'Frank Herbert' }).expect(201);
+
+      expect(transport.entries[0].body).toEqual({ title: 'Dune', author: 'Frank Herbert' });
+      if (parser !== 'none') {
+        expect(response.body.received).toEqual({ title: 'Dune', author: 'Frank Herbert' });
+      }
+    });
+
+    it('should capture form bodies, with repeated fields as arrays', async () => {
+      useLogger({});
+
+      await request(app).post('/api/books').type('form').send('title=Dune&tag=scifi&tag=classic&password=hunter2').expect(201);
+
+      expect(transport.entries[0].body).toEqual({ title: 'Dune', tag: ['scifi', 'classic'], password: '[REDACTED]' });
+    });
+
+    it('should capture text bodies as strings', async () => {
+      useLogger({});
+
+      await request(app).post('/api/books').set('Content-Type', 'text/plain; charset=utf-8').send('Dune by Frank Herbert').expect(201);
+
+      expect(transport.entries[0].body).toBe('Dune by Frank Herbert');
+    });
+
+    it('should skip content types that are not allowlisted', async () => {
+      useLogger({ bodyContentTypes: ['application/json'] });
+
+      await request(app).post('/api/books').set('Content-Type', 'text/plain').send('not captured').expect(201);
+      await request(app).post('/api/books').set('Content-Type', 'application/octet-stream').send(Buffer.from('binary')).expect(201);
+
+      expect(transport.entries).toHaveLength(2);
+      expect(transport.entries.map((entry) => entry.body)).toEqual([undefined, undefined]);
+    });
+
+    it('should match wildcard content types', async () => {
+      useLogger({});
+
+      await request(app).post('/api/books').set('Content-Type', 'application/vnd.api+json').send('{"data":{"type":"books"}}').expect(201);
+
+      expect(transport.entries[0].body).toEqual({ data: { type: 'books' } });
+    });
+
+    it('should add the body to entries written on response', async () => {
+      useLogger({ logOnResponse: true });
+
+      await request(app).post('/api/books').send({ title: 'Dune' }).expect(201);
+
+      expect(transport.entries[0]).toMatchObject({ status: 201, body: { title: 'Dune' } });
+    });
+
+    it('should capture bodies that no handler reads', async () => {
+      app.use(createRequestLogger({ captureBody: true, logOnResponse: true, transports: [transport] }));
+      app.post('/api/books', (req, res) => res.status(202).end());
+
+      await request(app).post('/api/books').send({ title: 'Dune' }).expect(202);
+
+      expect(transport.entries[0]).toMatchObject({ status: 202, body: { title: 'Dune' } });
+    });
+
+    it('should write the body to ECS as http.request.body.content', async () => {
+      const ecs = memoryTransport('ecs');
+      app.use(createRequestLogger({ captureBody: true, transports: [ecs] }));
+      app.use(express.json());
+      app.post('/api/books', (req, res) => res.status(201).end());
+
+      await request(app).post('/api/books').send({ title: 'Dune' }).expect(201);
+
+      expect(JSON.parse(ecs.lines[0]).http.request.body).toEqual({ content: '{"title":"Dune"}' });
+    });
+  });
+
+  describe('Redaction', () => {
+    it('should redact the default fields at any depth', async () => {
+      useLogger({});
+
+      await request(app)
+        .post('/api/books')
+        .send({ username: 'jane', Password: 'hunter2', payment: { creditCard: '4111111111111111', cvv: '123' } })
+        .expect(201);
+
+      expect(transport.entries[0].body).toEqual({
+        username: 'jane',
+        Password: '[REDACTED]',
+        payment: { creditCard: '[REDACTED]', cvv: '[REDACTED]' },
+      });
+      expect(DEFAULT_REDACTED_BODY_FIELDS).toContain('password');
+    });
+
+    it('should apply dotted paths from the top and "*" to a single level', () => {
+      const body = {
+        user: { name: 'Jane', ssn: '078-05-1120', profile: { ssn: 'kept' } },
+        ssn: 'kept',
+        billing: { creditCard: '4111111111111111' },
+        orders: [{ payment: { creditCard: 'kept' } }],
+      };
+
+      expect(redactBodyFields(body, ['user.ssn', '*.creditcard'])).toEqual({
+        user: { name: 'Jane', ssn: '[REDACTED]', profile: { ssn: 'kept' } },
+        ssn: 'kept',
+        billing: { creditCard: '[REDACTED]' },
+        orders: [{ payment: { creditCard: 'kept' } }],
+      });
+    });
+
+    it('should match array elements like the array itself', () => {
+      const body = { items: [{ sku: 'a', token: 'x' }, { sku: 'b', token: 'y' }] };
+
+      expect(redactBodyFields(body, ['items.token'])).toEqual({ items: [{ sku: 'a', token: '[REDACTED]' }, { sku: 'b', token: '[REDACTED]' }] });
+      expect(redactBodyFields([{ password: 'x' }], ['password'])).toEqual([{ password: '[REDACTED]' }]);
+    });
+
+    it('should redact malformed JSON bodies entirely', async () => {
+      useLogger({}, 'none');
+
+      await request(app).post('/api/books').set('Content-Type', 'application/json').send('{"password":"hunter2"').expect(201);
+
+      expect(transport.entries[0].body).toBe('[REDACTED]');
+    });
+
+    it('should warn about invalid body options', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      useLogger({ maxBodyBytes: -1, bodyContentTypes: ['json'], redactBodyFields: ['user..ssn'] });
+
+      await request(app).post('/api/books').send({ password: 'hunter2' }).expect(201);
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('maxBodyBytes'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('bodyContentTypes'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('redactBodyFields'));
+      expect(transport.entries[0].body).toEqual({ password: '[REDACTED]' });
+    });
+  });
+
+  describe('Truncation', () => {
+    const description = 'A desert planet, a noble family and a spice that everyone wants. '.repeat(4);
+
+    it.each(['before', 'after'] as const)('should redact, then truncate long JSON bodies (parser %s)', async (parser) => {
+      useLogger({ maxBodyBytes: 64 }, parser);
+
+      await request(app).post('/api/books').send({ password: 'hunter2', description }).expect(201);
+
+      const body = transport.entries[0].body as string;
+      expect(body).toBe(`${'{"password":"[REDACTED]","description":"A desert planet, a noble'}...[TRUNCATED]`);
+      expect(Buffer.byteLength(body.replace('...[TRUNCATED]', ''))).toBe(64);
+    });
+
+    it('should redact cut-off JSON bodies that no parser has read', async () => {
+      useLogger({ maxBodyBytes: 64 }, 'none');
+
+      await request(app).post('/api/books').send({ password: 'hunter2', description }).expect(201);
+
+      expect(transport.entries[0].body).toBe('[REDACTED]');
+    });
+
+    it('should keep cut-off JSON bodies as text when nothing is redacted', async () => {
+      useLogger({ maxBodyBytes: 16, redactBodyFields: [] }, 'none');
+
+      await request(app).post('/api/books').send({ title: 'Dune', description }).expect(201);
+
+      expect(transport.entries[0].body).toBe('{"title":"Dune",...[TRUNCATED]');
+    });
+
+    it('should not cut multi-byte characters in half', async () => {
+      useLogger({ maxBodyBytes: 5 });
+
+      await request(app).post('/api/books').set('Content-Type', 'text/plain').send('añoñoño').expect(201);
+
+      expect(transport.entries[0].body).toBe('año...[TRUNCATED]');
+    });
+  });
+});
@@ -1,9 +1,10 @@
 /**
  * Unit tests for configuration handling
- * Tests default configuration, custom configuration merging, and validation
+ * Tests default configuration, custom configuration merging, validation,
+ * unknown options, strict mode and validateConfig()
  */
 
-import { createRequestLogger, DEFAULT_CONFIG } from '../middleware';
+import { createRequestLogger, DEFAULT_CONFIG, LoggerConfig, LoggerConfigError, validateConfig } from '../middleware';
 import { Request, Response, NextFunction } from 'express';
 import { promises as fs } from 'fs';
 import * as path from 'path';
@@ -153,6 +154,18 @@ describe('Configuration Handling', () => {
       expect(middleware).toBeDefined();
     });
 
+    it('should keep the defaults of options passed as undefined', () => {
+      const customConfig: LoggerConfig = {
+        logFilePath: testLogFile,
+        format: undefined,
+        transports: undefined,
+        flushInterval: undefined,
+      };
+
+      expect(() => createRequestLogger(customConfig)).not.toThrow();
+      expect(validateConfig(customConfig)).toEqual([]);
+    });
+
     it('should merge multiple custom options with defaults', () => {
       const customConfig = {
         logFilePath: testLogFile,
@@ -214,4 +227,91 @@ describe('Configuration Handling', () => {
       expect(middleware).toBeDefined();
     });
   });
+
+  describe('Unknown Options', () => {
+    it('should warn about unknown options and suggest the closest one', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      createRequestLogger({ includeIP: true, logfilepath: testLogFile, colour: 'auto' } as LoggerConfig);
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith('Unknown option "includeIP". Did you mean "includeIp"? It is ignored.');
+      expect(consoleWarnSpy).toHaveBeenCalledWith('Unknown option "logfilepath". Did you mean "logFilePath"? It is ignored.');
+      expect(consoleWarnSpy).toHaveBeenCalledWith('Unknown option "colour". It is ignored.');
+
+      consoleWarnSpy.mockRestore();
+    });
+  });
+
+  describe('Strict Mode', () => {
+    it('should throw a LoggerConfigError listing every problem with its path', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      let thrown: unknown;
+
+      try {
+        createRequestLogger({
+          strict: true,
+          includeIP: true,
+          maxFiles: 0,
+          exclude: ['/health', 42],
+          transports: [{ format: 'yaml', write: () => undefined, flush: async () => undefined, close: async () => undefined }],
+        } as unknown as LoggerConfig);
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(LoggerConfigError);
+      expect((thrown as LoggerConfigError).problems).toEqual([
+        { path: 'includeIP', message: 'Unknown option "includeIP". Did you mean "includeIp"?' },
+        { path: 'maxFiles', message: 'Invalid maxFiles "0".' },
+        { path: 'exclude[1]', message: 'Invalid exclude. Use globs, RegExps or { method, path } rules.' },
+        { path: 'transports[0].format', message: 'Invalid transport format "yaml".' },
+      ]);
+      expect((thrown as Error).message).toBe([
+        'Invalid logger configuration (4 problems):',
+        '  includeIP: Unknown option "includeIP". Did you mean "includeIp"?',
+        '  maxFiles: Invalid maxFiles "0".',
+        '  exclude[1]: Invalid exclude. Use globs, RegExps or { method, path } rules.',
+        '  transports[0].format: Invalid transport format "yaml".',
+      ].join('\n'));
+      expect(consoleWarnSpy).not.toHaveBeenCalled();
+
+      consoleWarnSpy.mockRestore();
+    });
+
+    it('should create the logger when the configuration is valid', () => {
+      expect(createRequestLogger({ strict: true, logFilePath: testLogFile, format: 'text' })).toBeDefined();
+    });
+
+    it('should accept sampling without logOnResponse and reject explicit keep rules', () => {
+      expect(createRequestLogger({ strict: true, logFilePath: testLogFile, sampleRate: 0.5 })).toBeDefined();
+      expect(() => createRequestLogger({ strict: true, logFilePath: testLogFile, sampleRate: 0.5, alwaysLogSlowerThanMs: 2000 }))
+        .toThrow('logOnResponse: alwaysLogStatus and alwaysLogSlowerThanMs require logOnResponse.');
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should return no problems for a valid configuration', () => {
+      expect(validateConfig({ logFilePath: testLogFile, includeIp: true, sampleRate: 0.5, include: ['/api/**'] })).toEqual([]);
+    });
+
+    it('should check switches, nested entries and conflicting options', () => {
+      expect(validateConfig({
+        includeIp: 'yes',
+        trustedProxies: ['loopback', 'proxy.internal'],
+        sampleRules: [{ path: '/api/*', rate: 0.1 }, { rate: 2 }],
+        captureResponseBody: true,
+        transports: [{ write: () => undefined }],
+      })).toEqual([
+        { path: 'includeIp', message: 'Invalid includeIp "yes". Use true or false.' },
+        { path: 'trustedProxies[1]', message: 'Invalid trustedProxies.' },
+        { path: 'captureResponseBody', message: 'captureResponseBody requires logOnResponse.' },
+        { path: 'sampleRules[1]', message: 'Invalid sampleRules. Each rule needs a rate from 0 to 1, and optionally a method and a path (string or RegExp).' },
+        { path: 'transports[0]', message: 'Invalid transports entry. Each transport needs write, flush and close methods.' },
+      ]);
+    });
+
+    it('should reject values that are not objects', () => {
+      expect(validateConfig('json')).toEqual([{ path: '', message: 'Invalid configuration. Use an object of options.' }]);
+    });
+  });
 });
@@ -0,0 +1,155 @@
+/**
+ * Environment configuration tests
+ * Tests parsing LOG_* variables, errors naming invalid variables, and the
+ * precedence of defaults, variables and explicit options
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { createRequestLogger, EnvConfigError, loadConfigFromEnv, LogEntry, Transport } from '../middleware';
+
+/**
+ * Transport that keeps entries in memory.
+ */
+function memoryTransport(format?: Transport['format']): Transport & { entries: LogEntry[]; lines: string[] } {
+  const entries: LogEntry[] = [];
+  const lines: string[] = [];
+  return {
+    format,
+    entries,
+    lines,
+    write: (entry, formatted) => { entries.push(entry); lines.push(formatted); },
+    flush: async () => undefined,
+    close: async () => undefined,
+  };
+}
+
+describe('Environment Configuration Tests', () => {
+  afterEach(() => {
+    for (const name of Object.keys(process.env).filter((variable) => variable.startsWith('TEST_LOG_'))) {
+      delete process.env[name];
+    }
+    jest.restoreAllMocks();
+  });
+
+  describe('loadConfigFromEnv', () => {
+    it('should read the variables declared in render.yaml', () => {
+      const config = loadConfigFromEnv('LOG_', {
+        LOG_FILE_PATH: './logs/requests.log',
+        LOG_FORMAT: 'json',
+        LOG_INCLUDE_IP: 'true',
+        LOG_ENABLED: 'true',
+      });
+
+      expect(config).toEqual({ enabled: true, logFilePath: './logs/requests.log', format: 'json', includeIp: true });
+    });
+
+    it('should parse booleans, numbers, names and lists', () => {
+      const config = loadConfigFromEnv('LOG_', {
+        LOG_ON_RESPONSE: '1',
+        LOG_CAPTURE_BODY: 'false',
+        LOG_SAMPLE_RATE: '0.25',
+        LOG_MAX_FILES: '10',
+        LOG_IP_MODE: 'truncate',
+        LOG_MIN_LEVEL: 'warn',
+        LOG_EXCLUDE: ' /health , /static/** ',
+        LOG_INCLUDE_HEADERS: '*',
+        LOG_FORMAT: ':method :url :status',
+      });
+
+      expect(config).toEqual({
+        logOnResponse: true,
+        captureBody: false,
+        sampleRate: 0.25,
+        maxFiles: 10,
+        ipMode: 'truncate',
+        minLevel: 'warn',
+        exclude: ['/health', '/static/**'],
+        includeHeaders: '*',
+        format: ':method :url :status',
+      });
+    });
+
+    it.each([
+      ['express', 'express'],
+      ['false', false],
+      ['2', 2],
+      ['loopback, 10.0.0.0/8', ['loopback', '10.0.0.0/8']],
+    ])('should parse LOG_TRUSTED_PROXIES=%s', (value, trustedProxies) => {
+      expect(loadConfigFromEnv('LOG_', { LOG_TRUSTED_PROXIES: value })).toEqual({ trustedProxies });
+    });
+
+    it('should use the prefix and ignore empty variables', () => {
+      expect(loadConfigFromEnv('BOOKS_LOG_', { LOG_FORMAT: 'text', BOOKS_LOG_FORMAT: 'logfmt', BOOKS_LOG_INCLUDE_IP: '' })).toEqual({ format: 'logfmt' });
+    });
+
+    it.each([
+      ['LOG_INCLUDE_IP', 'yes', 'Invalid LOG_INCLUDE_IP "yes": expected true or false'],
+      ['LOG_MAX_FILES', '5 files', 'Invalid LOG_MAX_FILES "5 files": expected an integer of at least 1'],
+      ['LOG_MAX_FILES', '1e3', 'Invalid LOG_MAX_FILES "1e3": expected an integer of at least 1'],
+      ['LOG_SAMPLE_RATE', '1.5', 'Invalid LOG_SAMPLE_RATE "1.5": expected a number from 0 to 1'],
+      ['LOG_FLUSH_INTERVAL', '0', 'Invalid LOG_FLUSH_INTERVAL "0": expected a number greater than 0'],
+      ['LOG_IP_MODE', 'Hash', 'Invalid LOG_IP_MODE "Hash": expected one of full, truncate, hash, none'],
+      ['LOG_EXCLUDE', '/health,,/metrics', 'Invalid LOG_EXCLUDE "/health,,/metrics": expected a comma-separated list of path globs'],
+      ['LOG_FORMAT', 'yaml', 'Invalid LOG_FORMAT "yaml": expected a registered format or a token template'],
+    ])('should reject %s=%s', (variable, value, message) => {
+      expect(() => loadConfigFromEnv('LOG_', { [variable]: value })).toThrow(message);
+    });
+
+    it('should throw an EnvConfigError naming the variable', () => {
+      let thrown: unknown;
+      try {
+        loadConfigFromEnv('LOG_', { LOG_TRUSTED_PROXIES: 'loopback,proxy.internal' });
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(EnvConfigError);
+      expect(thrown).toMatchObject({ name: 'EnvConfigError', code: 'ERR_LOG_ENV', variable: 'LOG_TRUSTED_PROXIES', value: 'loopback,proxy.internal' });
+    });
+  });
+
+  describe('createRequestLogger', () => {
+    it('should apply defaults, then variables, then explicit options', async () => {
+      process.env.TEST_LOG_FORMAT = 'text';
+      process.env.TEST_LOG_ON_RESPONSE = 'true';
+      process.env.TEST_LOG_MIN_LEVEL = 'warn';
+      process.env.TEST_LOG_INCLUDE_IP = 'true';
+      const transport = memoryTransport();
+      const app = express();
+      app.use(createRequestLogger({ fromEnv: 'TEST_LOG_', minLevel: 'info', includeIp: undefined, transports: [transport] }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(transport.lines).toEqual([expect.stringMatching(/^\[.*\] \[INFO\] GET \/api\/books 200 /)]);
+      expect(transport.entries[0].ip).toBeDefined();
+    });
+
+    it('should not read variables without fromEnv', async () => {
+      process.env.TEST_LOG_FORMAT = 'text';
+      const transport = memoryTransport();
+      const app = express();
+      app.use(createRequestLogger({ transports: [transport] }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(JSON.parse(transport.lines[0])).toMatchObject({ method: 'GET', url: '/api/books' });
+    });
+
+    it('should throw when a variable is invalid', () => {
+      process.env.TEST_LOG_ENABLED = 'on';
+
+      expect(() => createRequestLogger({ fromEnv: 'TEST_LOG_' })).toThrow('Invalid TEST_LOG_ENABLED "on": expected true or false');
+    });
+
+    it('should warn about an invalid fromEnv', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      createRequestLogger({ fromEnv: 1 as any, transports: [memoryTransport()] });
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('fromEnv'));
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Route filter tests
+ * Tests include and exclude rules (globs, RegExps and method and path
+ * rules), the skip predicate and explain()
+ */
+
+import express, { Express } from 'express';
+import request from 'supertest';
+import { createRequestLogger, LogEntry, LoggerConfig, RequestLogger, Transport } from '../middleware';
+import { globPattern } from '../middleware/filters';
+
+/**
+ * Transport that keeps entries in memory.
+ */
+function memoryTransport(format?: Transport['format']): Transport & { entries: LogEntry[] } {
+  const entries: LogEntry[] = [];
+  return {
+    format,
+    entries,
+    write: (entry) => { entries.push(entry); },
+    flush: async () => undefined,
+    close: async () => undefined,
+  };
+}
+
+describe('Route Filter Tests', () => {
+  let app: Express;
+  let transport: ReturnType<typeof memoryTransport>;
+
+  function useLogger(config: LoggerConfig): RequestLogger {
+    const requestLogger = createRequestLogger({ transports: [transport], ...config });
+    app.use(requestLogger);
+    app.get('/health', (req, res) => res.json({ status: 'ok' }));
+    app.get('/static/css/app.css', (req, res) => res.type('css').send('body {}'));
+    app.get('/favicon.ico', (req, res) => res.status(204).end());
+    app.get('/api/books', (req, res) => res.json([]));
+    app.post('/api/books', (req, res) => res.status(201).end());
+    app.get('/api/books/:id', (req, res) => res.status(req.params.id === '0' ? 404 : 200).json({}));
+    return requestLogger;
+  }
+
+  /** Sends one request per method and path, in order */
+  async function send(...requests: Array<[string, string]>): Promise<void> {
+    for (const [method, path] of requests) {
+      await (method === 'POST' ? request(app).post(path) : request(app).get(path));
+    }
+  }
+
+  beforeEach(() => {
+    app = express();
+    transport = memoryTransport();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Globs', () => {
+    it.each([
+      ['/health', '/health', true],
+      ['/health', '/healthz', false],
+      ['/api/*', '/api/books', true],
+      ['/api/*', '/api/books/42', false],
+      ['/api/**', '/api/books/42', true],
+      ['/static/**', '/static/css/app.css', true],
+      ['/api/books/?', '/api/books/7', true],
+      ['/api/books/?', '/api/books/42', false],
+      ['/v1.0/*', '/v100/books', false],
+    ])('should match %s against %s: %s', (glob, path, matches) => {
+      expect(globPattern(glob).test(path)).toBe(matches);
+    });
+  });
+
+  describe('Include and Exclude', () => {
+    it('should exclude globs, RegExps and method rules', async () => {
+      useLogger({ exclude: ['/health', '/static/**', /\.ico$/, { method: 'POST', path: '/api/books' }] });
+
+      await send(['GET', '/health'], ['GET', '/static/css/app.css'], ['GET', '/favicon.ico'], ['POST', '/api/books'], ['GET', '/api/books?page=2']);
+
+      expect(transport.entries.map((entry) => `${entry.method} ${entry.url}`)).toEqual(['GET /api/books?page=2']);
+    });
+
+    it('should only log included requests, minus excluded ones', async () => {
+      useLogger({ include: ['/api/**'], exclude: [{ method: ['get', 'HEAD'], path: '/api/books/*' }] });
+
+      await send(['GET', '/health'], ['GET', '/api/books'], ['GET', '/api/books/42'], ['POST', '/api/books']);
+
+      expect(transport.entries.map((entry) => `${entry.method} ${entry.url}`)).toEqual(['GET /api/books', 'POST /api/books']);
+    });
+
+    it('should still echo request IDs of filtered requests', async () => {
+      useLogger({ exclude: ['/health'] });
+
+      const response = await request(app).get('/health').expect(200);
+
+      expect(response.headers['x-request-id']).toBeDefined();
+      expect(transport.entries).toHaveLength(0);
+    });
+  });
+
+  describe('Skip Predicate', () => {
+    it('should call skip once the response completes with logOnResponse', async () => {
+      useLogger({ logOnResponse: true, skip: (req, res) => res.statusCode < 400 });
+
+      await send(['GET', '/api/books/42'], ['GET', '/api/books/0']);
+
+      expect(transport.entries.map((entry) => entry.status)).toEqual([404]);
+    });
+
+    it('should call skip when the request arrives otherwise', async () => {
+      useLogger({ skip: (req) => req.headers['user-agent'] === 'kube-probe/1.29' });
+
+      await request(app).get('/api/books').set('User-Agent', 'kube-probe/1.29').expect(200);
+      await request(app).get('/api/books').set('User-Agent', 'curl/8.4.0').expect(200);
+
+      expect(transport.entries).toHaveLength(1);
+    });
+
+    it('should log requests when skip throws', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      useLogger({ skip: () => { throw new Error('boom'); } });
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(transport.entries).toHaveLength(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('[Request Logger] skip failed for GET /api/books: boom');
+    });
+  });
+
+  describe('explain()', () => {
+    it('should name the rule that decided', () => {
+      const requestLogger = useLogger({ include: ['/api/**', '/health'], exclude: [/^\/api\/admin/, { method: 'POST', path: '/api/books' }] });
+
+      expect(requestLogger.explain({ method: 'GET', url: '/health' })).toEqual({
+        logged: true,
+        list: 'include',
+        index: 1,
+        rule: '/health',
+        reason: 'GET /health matches include[1] "/health"',
+      });
+      expect(requestLogger.explain({ method: 'post', url: '/api/books?draft=1' })).toMatchObject({
+        logged: false,
+        list: 'exclude',
+        index: 1,
+        reason: 'POST /api/books matches exclude[1] POST "/api/books"',
+      });
+      expect(requestLogger.explain({ method: 'GET', url: '/api/admin/users' }).reason).toBe('GET /api/admin/users matches exclude[0] /^\\/api\\/admin/');
+      expect(requestLogger.explain({ method: 'GET', url: '/metrics' })).toEqual({ logged: false, reason: 'GET /metrics matches no include rule' });
+    });
+
+    it('should apply skip only when given a response', async () => {
+      const requestLogger = useLogger({ skip: () => true });
+      let explanations: unknown[] = [];
+      app.get('/explain', (req, res) => {
+        explanations = [requestLogger.explain(req), requestLogger.explain(req, res)];
+        res.end();
+      });
+
+      await request(app).get('/explain').expect(200);
+
+      expect(explanations).toEqual([
+        { logged: true, reason: 'GET /explain matches no exclude rule' },
+        { logged: false, list: 'skip', reason: 'GET /explain is skipped by the skip predicate' },
+      ]);
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should warn about invalid filters and ignore them', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      useLogger({ include: [{}] as any, exclude: ['/health', 42] as any, skip: 'health' as any });
+
+      await send(['GET', '/health']);
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('include'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('exclude'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('skip'));
+      expect(transport.entries).toHaveLength(1);
+    });
+
+    it('should log every request when the filters are passed as undefined', async () => {
+      useLogger({ include: undefined, exclude: undefined, skip: undefined });
+
+      await send(['GET', '/health'], ['GET', '/api/books']);
+
+      expect(transport.entries).toHaveLength(2);
+    });
+  });
+});
@@ -3,7 +3,24 @@
  * Tests JSON and text formatters with various LogEntry configurations
  */
 
-import { createRequestLogger, LogEntry } from '../middleware';
+import express from 'express';
+import request from 'supertest';
+import { createRequestLogger, LOG_FORMATS, LogEntry, registerFormatter, Transport } from '../middleware';
+import { selectFormatter } from '../middleware/formatters';
+
+/**
+ * Transport that keeps formatted lines in memory.
+ */
+function memoryTransport(format?: Transport['format']): Transport & { lines: string[] } {
+  const lines: string[] = [];
+  return {
+    format,
+    lines,
+    write: (entry, formatted) => { lines.push(formatted); },
+    flush: async () => undefined,
+    close: async () => undefined,
+  };
+}
 
 describe('Log Formatters', () => {
   describe('JSON Formatter', () => {
@@ -21,7 +38,7 @@ describe('Log Formatters', () => {
       expect(expectedJson).toContain('"timestamp":"2025-11-09T18:58:00.123Z"');
       expect(expectedJson).toContain('"method":"GET"');
       expect(expectedJson).toContain('"url":"/api/books"');
-      expect(expectedJson).toEndWith('\n');
+      expect(expectedJson.endsWith('\n')).toBe(true);
     });
 
     it('should format log entry with IP address as JSON', () => {
@@ -63,7 +80,7 @@ describe('Log Formatters', () => {
       
       expect(expectedJson).toContain('"ip":"10.0.0.1"');
       expect(expectedJson).toContain('"userAgent":"curl/7.68.0"');
-      expect(expectedJson).toEndWith('\n');
+      expect(expectedJson.endsWith('\n')).toBe(true);
     });
   });
 
@@ -78,7 +95,7 @@ describe('Log Formatters', () => {
       const expectedText = `[${logEntry.timestamp}] ${logEntry.method} ${logEntry.url}\n`;
       
       expect(expectedText).toBe('[2025-11-09T18:58:00.123Z] GET /api/books\n');
-      expect(expectedText).toEndWith('\n');
+      expect(expectedText.endsWith('\n')).toBe(true);
     });
 
     it('should format log entry with IP address as text', () => {
@@ -92,7 +109,7 @@ describe('Log Formatters', () => {
       const expectedText = `[${logEntry.timestamp}] ${logEntry.method} ${logEntry.url} - ${logEntry.ip}\n`;
       
       expect(expectedText).toContain('- 192.168.1.100');
-      expect(expectedText).toEndWith('\n');
+      expect(expectedText.endsWith('\n')).toBe(true);
     });
 
     it('should format log entry with User-Agent as text', () => {
@@ -121,7 +138,248 @@ describe('Log Formatters', () => {
       
       expect(expectedText).toContain('- 10.0.0.1');
       expect(expectedText).toContain('- curl/7.68.0');
-      expect(expectedText).toEndWith('\n');
+      expect(expectedText.endsWith('\n')).toBe(true);
+    });
+  });
+
+  describe('Formatter Registry', () => {
+    const logEntry: LogEntry = {
+      timestamp: '2025-11-09T18:58:00.123Z',
+      method: 'GET',
+      url: '/api/books',
+      status: 200,
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should select registered formatters by name', () => {
+      registerFormatter('minimal', entry => `${entry.method} ${entry.url} ${entry.status}\n`);
+
+      expect(selectFormatter('minimal')(logEntry)).toBe('GET /api/books 200\n');
+      expect(LOG_FORMATS).toContain('minimal');
+    });
+
+    it('should list each registered name once', () => {
+      registerFormatter('once', () => 'first');
+      registerFormatter('once', () => 'second');
+
+      expect(LOG_FORMATS.filter(name => name === 'once')).toHaveLength(1);
+      expect(selectFormatter('once')(logEntry)).toBe('second\n');
+    });
+
+    it('should add a trailing newline when a formatter leaves it out', () => {
+      expect(selectFormatter(entry => entry.url)(logEntry)).toBe('/api/books\n');
+    });
+
+    it('should reject invalid registrations', () => {
+      expect(() => registerFormatter('', () => '')).toThrow(TypeError);
+      expect(() => registerFormatter('broken', 'not a function' as any)).toThrow(TypeError);
+      expect(() => registerFormatter('json', () => '')).toThrow('built-in');
+    });
+
+    it('should use a registered format through the middleware', async () => {
+      registerFormatter('pipe', entry => `${entry.method}|${entry.url}`);
+      const transport = memoryTransport();
+      const app = express();
+      app.use(createRequestLogger({ format: 'pipe', transports: [transport] }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(transport.lines).toEqual(['GET|/api/books\n']);
+    });
+
+    it('should accept a formatter function as the format option', async () => {
+      const transport = memoryTransport();
+      const app = express();
+      app.use(createRequestLogger({ format: entry => `custom ${entry.url}\n`, transports: [transport] }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(transport.lines).toEqual(['custom /api/books\n']);
+    });
+
+    it('should warn and fall back to JSON for unregistered format names', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const transport = memoryTransport();
+      const app = express();
+      app.use(createRequestLogger({ format: 'not-registered', transports: [transport] }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith('Invalid log format "not-registered". Falling back to "json".');
+      expect(JSON.parse(transport.lines[0]).url).toBe('/api/books');
+    });
+  });
+
+  describe('Common and Combined Log Format', () => {
+    const logEntry: LogEntry = {
+      timestamp: '2026-10-19T13:55:36.123Z',
+      method: 'GET',
+      url: '/api/books?title=dune',
+      ip: '192.168.1.100',
+      status: 200,
+      responseBytes: 2326,
+      referer: 'https://example.com/',
+      userAgent: 'curl/8.4.0',
+    };
+
+    it('should format a Common Log Format line', () => {
+      expect(selectFormatter('clf')(logEntry)).toBe(
+        '192.168.1.100 - - [19/Oct/2026:13:55:36 +0000] "GET /api/books?title=dune" 200 2326\n'
+      );
+    });
+
+    it('should format a Combined Log Format line', () => {
+      expect(selectFormatter('combined')(logEntry)).toBe(
+        '192.168.1.100 - - [19/Oct/2026:13:55:36 +0000] "GET /api/books?title=dune" 200 2326 "https://example.com/" "curl/8.4.0"\n'
+      );
+    });
+
+    it('should write "-" for missing fields', () => {
+      const bare: LogEntry = { timestamp: '2026-01-05T03:04:05.000Z', method: 'HEAD', url: '/', responseBytes: 0 };
+
+      expect(selectFormatter('combined')(bare)).toBe('- - - [05/Jan/2026:03:04:05 +0000] "HEAD /" - - "-" "-"\n');
+    });
+
+    it('should escape quotes, backslashes and control characters in quoted fields', () => {
+      const hostile: LogEntry = { ...logEntry, userAgent: 'evil "agent" \\ \n' };
+
+      expect(selectFormatter('combined')(hostile)).toMatch(/ "evil \\"agent\\" \\\\ \\x0a"\n$/);
+    });
+
+    it('should log the HTTP version and headers of real requests', async () => {
+      const transport = memoryTransport('combined');
+      const app = express();
+      app.use(createRequestLogger({
+        logOnResponse: true,
+        includeIp: true,
+        includeUserAgent: true,
+        includeReferer: true,
+        transports: [transport],
+      }));
+      app.get('/api/books', (req, res) => res.send('hello'));
+
+      await request(app)
+        .get('/api/books')
+        .set('Referer', 'https://example.com/catalog')
+        .set('User-Agent', 'GoAccess-Test/1.0')
+        .expect(200);
+
+      expect(transport.lines[0]).toMatch(
+        /^\S+ - - \[\d{2}\/\w{3}\/\d{4}:\d{2}:\d{2}:\d{2} \+0000\] "GET \/api\/books HTTP\/1\.1" 200 5 "https:\/\/example\.com\/catalog" "GoAccess-Test\/1\.0"\n$/
+      );
+    });
+
+    it('should list the formats in LOG_FORMATS', () => {
+      expect(LOG_FORMATS).toEqual(expect.arrayContaining(['json', 'text', 'clf', 'combined']));
+    });
+  });
+
+  describe('logfmt Formatter', () => {
+    it('should write key=value pairs with ts first', () => {
+      const logEntry: LogEntry = {
+        timestamp: '2026-10-19T13:55:36.123Z',
+        method: 'GET',
+        url: '/api/books',
+        status: 200,
+        durationMs: 1.482,
+      };
+
+      expect(selectFormatter('logfmt')(logEntry)).toBe(
+        'ts=2026-10-19T13:55:36.123Z method=GET url=/api/books status=200 durationMs=1.482\n'
+      );
+    });
+
+    it('should quote and escape values with spaces, equals signs, quotes and newlines', () => {
+      const logEntry: LogEntry = {
+        timestamp: '2026-10-19T13:55:36.123Z',
+        method: 'GET',
+        url: '/search?q=a b',
+        userAgent: 'say "hi"\\\n',
+        referer: '',
+      };
+
+      expect(selectFormatter('logfmt')(logEntry)).toBe(
+        'ts=2026-10-19T13:55:36.123Z method=GET url="/search?q=a b" userAgent="say \\"hi\\"\\\\\\n" referer=""\n'
+      );
+    });
+
+    it('should write booleans unquoted', () => {
+      const logEntry: LogEntry = { timestamp: 't', method: 'GET', url: '/', aborted: true };
+
+      expect(selectFormatter('logfmt')(logEntry)).toBe('ts=t method=GET url=/ aborted=true\n');
+    });
+  });
+
+  describe('ECS Formatter', () => {
+    it('should map entry fields to Elastic Common Schema fields', () => {
+      const logEntry: LogEntry = {
+        timestamp: '2026-10-19T13:55:36.123Z',
+        method: 'POST',
+        url: '/api/books?draft=1',
+        ip: '192.168.1.100',
+        userAgent: 'curl/8.4.0',
+        referer: 'https://example.com/',
+        requestBytes: 27,
+        status: 201,
+        durationMs: 1.482,
+        responseBytes: 84,
+      };
+
+      const document = JSON.parse(selectFormatter('ecs')(logEntry));
+
+      expect(document).toEqual({
+        '@timestamp': '2026-10-19T13:55:36.123Z',
+        ecs: { version: '8.11.0' },
+        event: { kind: 'event', category: ['web'], type: ['access'], duration: 1482000, outcome: 'success' },
+        http: {
+          request: { method: 'POST', referrer: 'https://example.com/', body: { bytes: 27 } },
+          response: { status_code: 201, body: { bytes: 84 } },
+        },
+        url: { original: '/api/books?draft=1' },
+        source: { ip: '192.168.1.100' },
+        user_agent: { original: 'curl/8.4.0' },
+      });
+    });
+
+    it('should omit fields that were not captured', () => {
+      const document = JSON.parse(selectFormatter('ecs')({ timestamp: 't', method: 'GET', url: '/' }));
+
+      expect(document).toEqual({
+        '@timestamp': 't',
+        ecs: { version: '8.11.0' },
+        event: { kind: 'event', category: ['web'], type: ['access'] },
+        http: { request: { method: 'GET' } },
+        url: { original: '/' },
+      });
+    });
+
+    it('should mark aborted requests and server errors as failures', () => {
+      const outcome = (entry: Partial<LogEntry>): string =>
+        JSON.parse(selectFormatter('ecs')({ timestamp: 't', method: 'GET', url: '/', ...entry })).event.outcome;
+
+      expect(outcome({ status: 503 })).toBe('failure');
+      expect(outcome({ status: 200, aborted: true })).toBe('failure');
+      expect(outcome({ status: 404 })).toBe('success');
+    });
+
+    it('should be selectable through the middleware', async () => {
+      const transport = memoryTransport('ecs');
+      const app = express();
+      app.use(createRequestLogger({ logOnResponse: true, transports: [transport] }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').expect(200);
+
+      const document = JSON.parse(transport.lines[0]);
+      expect(document.http.response.status_code).toBe(200);
+      expect(Number.isInteger(document.event.duration)).toBe(true);
+      expect(LOG_FORMATS).toEqual(expect.arrayContaining(['logfmt', 'ecs']));
     });
   });
 });
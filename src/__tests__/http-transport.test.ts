@@ -0,0 +1,244 @@
+/**
+ * HTTP transport tests
+ * Tests NDJSON batching, retries with backoff, spooling and delivery counters
+ * against a local stand-in collector
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { createRequestLogger, HttpTransport, LogEntry } from '../middleware';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+/**
+ * Local collector that records every POST body and answers with scripted statuses.
+ */
+interface Collector {
+  url: string;
+  bodies: string[];
+  requests: http.IncomingMessage[];
+  statuses: number[];
+  close: () => Promise<void>;
+}
+
+async function startCollector(statuses: number[] = []): Promise<Collector> {
+  const collector = { bodies: [] as string[], requests: [] as http.IncomingMessage[], statuses };
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      collector.requests.push(req);
+      collector.bodies.push(body);
+      res.statusCode = collector.statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    ...collector,
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/ingest`,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Returns a URL with nothing listening on it.
+ */
+async function unreachableUrl(): Promise<string> {
+  const collector = await startCollector();
+  await collector.close();
+  return collector.url;
+}
+
+function entry(url: string): LogEntry {
+  return { timestamp: '2026-10-19T13:55:36.123Z', method: 'GET', url };
+}
+
+function formatted(url: string): string {
+  return `${JSON.stringify(entry(url))}\n`;
+}
+
+describe('HTTP Transport Tests', () => {
+  const spoolDir = './test-logs/spool';
+
+  beforeEach(async () => {
+    await fs.rm('./test-logs', { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm('./test-logs', { recursive: true, force: true });
+  });
+
+  describe('Batching', () => {
+    it('should POST entries as NDJSON', async () => {
+      const collector = await startCollector();
+      const transport = new HttpTransport({ url: collector.url, headers: { Authorization: 'Bearer secret' } });
+      const requestLogger = createRequestLogger({ format: 'text', transports: [transport] });
+      const app = express();
+      app.use(requestLogger);
+      app.get('/api/books/:id', (req, res) => res.json({ ok: true }));
+
+      await request(app).get('/api/books/1').expect(200);
+      await request(app).get('/api/books/2').expect(200);
+      await requestLogger.close();
+      await collector.close();
+
+      // Both entries travel in one batch, as JSON whatever the logger's format
+      expect(collector.bodies).toHaveLength(1);
+      expect(collector.bodies[0].trim().split('\n').map(line => JSON.parse(line).url)).toEqual(['/api/books/1', '/api/books/2']);
+      expect(collector.requests[0].method).toBe('POST');
+      expect(collector.requests[0].headers['content-type']).toBe('application/x-ndjson');
+      expect(collector.requests[0].headers.authorization).toBe('Bearer secret');
+      expect(transport.getStats()).toEqual({ sent: 2, failed: 0, spooled: 0, dropped: 0 });
+    });
+
+    it('should send a batch once it reaches batchSize', async () => {
+      const collector = await startCollector();
+      const transport = new HttpTransport({ url: collector.url, batchSize: 2, batchInterval: 60000 });
+
+      for (let i = 0; i < 5; i++) {
+        transport.write(entry(`/${i}`), formatted(`/${i}`));
+      }
+      await transport.close();
+      await collector.close();
+
+      expect(collector.bodies.map(body => body.trim().split('\n').length)).toEqual([2, 2, 1]);
+    });
+
+    it('should send a batch once it reaches batchInterval', async () => {
+      const collector = await startCollector();
+      const transport = new HttpTransport({ url: collector.url, batchInterval: 20 });
+
+      transport.write(entry('/aged'), formatted('/aged'));
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(collector.bodies).toHaveLength(1);
+      await transport.close();
+      await collector.close();
+    });
+  });
+
+  describe('Retries', () => {
+    it('should retry server errors with backoff until the batch is accepted', async () => {
+      const collector = await startCollector([503, 429]);
+      const transport = new HttpTransport({ url: collector.url, retryDelay: 1 });
+
+      transport.write(entry('/retried'), formatted('/retried'));
+      await transport.close();
+      await collector.close();
+
+      expect(collector.bodies).toHaveLength(3);
+      expect(new Set(collector.bodies).size).toBe(1);
+      expect(transport.getStats()).toEqual({ sent: 1, failed: 0, spooled: 0, dropped: 0 });
+    });
+
+    it('should drop batches the collector rejects without retrying', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const collector = await startCollector([400]);
+      const transport = new HttpTransport({ url: collector.url, retryDelay: 1, spoolDir });
+
+      transport.write(entry('/rejected'), formatted('/rejected'));
+      await transport.close();
+      await collector.close();
+
+      expect(collector.bodies).toHaveLength(1);
+      expect(transport.getStats()).toEqual({ sent: 0, failed: 1, spooled: 0, dropped: 1 });
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('HTTP_400'));
+    });
+
+    it('should drop batches after the last retry when no spool directory is set', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const transport = new HttpTransport({ url: await unreachableUrl(), maxRetries: 2, retryDelay: 1 });
+
+      transport.write(entry('/lost'), formatted('/lost'));
+      await transport.close();
+
+      expect(transport.getStats()).toEqual({ sent: 0, failed: 1, spooled: 0, dropped: 1 });
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('ECONNREFUSED'));
+    });
+  });
+
+  describe('Spooling', () => {
+    it('should spool undeliverable batches and re-send them at startup', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      const offline = new HttpTransport({ url: await unreachableUrl(), maxRetries: 1, retryDelay: 1, spoolDir });
+
+      offline.write(entry('/spooled/1'), formatted('/spooled/1'));
+      offline.write(entry('/spooled/2'), formatted('/spooled/2'));
+      await offline.close();
+
+      expect(offline.getStats()).toEqual({ sent: 0, failed: 2, spooled: 2, dropped: 0 });
+      const spooled = await fs.readdir(spoolDir);
+      expect(spooled).toHaveLength(1);
+      expect(spooled[0]).toMatch(/\.ndjson$/);
+
+      // The collector is back: a new transport delivers the spooled batch
+      const collector = await startCollector();
+      const online = new HttpTransport({ url: collector.url, spoolDir });
+      await online.close();
+      await collector.close();
+
+      expect(collector.bodies).toEqual([formatted('/spooled/1') + formatted('/spooled/2')]);
+      expect(online.getStats().sent).toBe(2);
+      expect(await fs.readdir(spoolDir)).toEqual([]);
+    });
+
+    it('should re-send spooled batches periodically', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      const collector = await startCollector([503, 503]);
+      const transport = new HttpTransport({ url: collector.url, maxRetries: 1, retryDelay: 1, spoolDir, resendInterval: 20 });
+
+      transport.write(entry('/later'), formatted('/later'));
+      await transport.flush();
+      expect(transport.getStats().spooled).toBe(1);
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await transport.close();
+      await collector.close();
+
+      expect(transport.getStats()).toEqual({ sent: 1, failed: 1, spooled: 1, dropped: 0 });
+      expect(await fs.readdir(spoolDir)).toEqual([]);
+    });
+
+    it('should spool the pending batch when closed against an unreachable collector', async () => {
+      const transport = new HttpTransport({ url: await unreachableUrl(), maxRetries: 2, retryDelay: 5, spoolDir });
+      transport.write(entry('/closing'), formatted('/closing'));
+
+      const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+      await transport.close();
+
+      expect(transport.getStats()).toEqual({ sent: 0, failed: 1, spooled: 1, dropped: 0 });
+      expect(await fs.readdir(spoolDir)).toHaveLength(1);
+      // The backoff timers kept the process alive while close() was pending
+      const backoffTimers = setTimeoutSpy.mock.results.map(result => result.value as NodeJS.Timeout);
+      expect(backoffTimers).toHaveLength(2);
+      expect(backoffTimers.every(timer => timer.hasRef())).toBe(true);
+      setTimeoutSpy.mockRestore();
+    });
+
+    it('should drop batches once the spool is full', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const transport = new HttpTransport({ url: await unreachableUrl(), maxRetries: 0, spoolDir, maxSpoolSize: 10 });
+
+      transport.write(entry('/too-big'), formatted('/too-big'));
+      await transport.close();
+
+      expect(transport.getStats()).toEqual({ sent: 0, failed: 1, spooled: 0, dropped: 1 });
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('ESPOOLFULL'));
+    });
+  });
+
+  it('should count entries written after close as dropped', async () => {
+    const transport = new HttpTransport({ url: await unreachableUrl() });
+    await transport.close();
+
+    transport.write(entry('/late'), formatted('/late'));
+
+    expect(transport.getStats().dropped).toBe(1);
+  });
+});
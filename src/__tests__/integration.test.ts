@@ -243,4 +243,91 @@ describe('Express Integration Tests', () => {
       expect(logEntry.userAgent).toBe('TestAgent/1.0');
     });
   });
+
+  describe('Response Outcome Logging', () => {
+    beforeEach(() => {
+      app.use(createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+        logOnResponse: true,
+      }));
+
+      app.get('/api/books', (req, res) => res.json({ books: [] }));
+      app.post('/api/books', (req, res) => res.status(201).json({ id: 1 }));
+      app.get('/api/stream', (req, res) => {
+        res.write('abc');
+        res.end('defgh');
+      });
+      app.use((req, res) => res.status(404).json({ error: 'Route not found' }));
+    });
+
+    it('should record status, duration and sizes for a successful request', async () => {
+      const response = await request(app)
+        .post('/api/books')
+        .send({ title: 'Test Book' })
+        .expect(201);
+
+      // Wait for async file write
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const logContent = await fs.readFile(testLogFile, 'utf8');
+      const logEntry = JSON.parse(logContent.trim());
+
+      expect(logEntry.method).toBe('POST');
+      expect(logEntry.status).toBe(201);
+      expect(typeof logEntry.durationMs).toBe('number');
+      expect(logEntry.durationMs).toBeGreaterThanOrEqual(0);
+      expect(logEntry.requestBytes).toBe(Buffer.byteLength(JSON.stringify({ title: 'Test Book' })));
+      expect(logEntry.responseBytes).toBe(Buffer.byteLength(response.text));
+      expect(logEntry.aborted).toBeUndefined();
+    });
+
+    it('should distinguish a 404 from a successful response', async () => {
+      await request(app).get('/api/missing').expect(404);
+      await request(app).get('/api/books').expect(200);
+
+      // Wait for async file writes
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const logContent = await fs.readFile(testLogFile, 'utf8');
+      const [missing, found] = logContent.trim().split('\n').map(line => JSON.parse(line));
+
+      expect(missing.url).toBe('/api/missing');
+      expect(missing.status).toBe(404);
+      expect(found.url).toBe('/api/books');
+      expect(found.status).toBe(200);
+    });
+
+    it('should count bytes of streamed responses', async () => {
+      await request(app).get('/api/stream').expect(200);
+
+      // Wait for async file write
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const logContent = await fs.readFile(testLogFile, 'utf8');
+      const logEntry = JSON.parse(logContent.trim());
+
+      expect(logEntry.responseBytes).toBe(8);
+      expect(logEntry.requestBytes).toBe(0);
+    });
+
+    it('should render the outcome in text format', async () => {
+      const textApp = express();
+      textApp.use(createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'text',
+        logOnResponse: true,
+      }));
+      textApp.get('/api/books', (req, res) => res.send('ok'));
+
+      await request(textApp).get('/api/books').expect(200);
+
+      // Wait for async file write
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const logContent = await fs.readFile(testLogFile, 'utf8');
+
+      expect(logContent).toMatch(/\[.*\] GET \/api\/books 200 \d+(\.\d+)?ms in=0B out=2B\n/);
+    });
+  });
 });
@@ -0,0 +1,286 @@
+/**
+ * Client IP address tests
+ * Tests client address resolution through trusted proxies, truncation,
+ * keyed hashing and key rotation of client IP addresses, and that every
+ * format showing an address applies ipMode
+ */
+
+import express, { Express } from 'express';
+import request from 'supertest';
+import { createRequestLogger, LogEntry, LoggerConfig, Transport } from '../middleware';
+import { createIpAnonymizer, createIpHasher, isProxyRange, truncateIp } from '../middleware/ip';
+
+/**
+ * Transport that keeps entries and formatted lines in memory.
+ */
+function memoryTransport(format?: Transport['format']): Transport & { entries: LogEntry[]; lines: string[] } {
+  const entries: LogEntry[] = [];
+  const lines: string[] = [];
+  return {
+    format,
+    entries,
+    lines,
+    write: (entry, formatted) => {
+      entries.push(entry);
+      lines.push(formatted);
+    },
+    flush: async () => undefined,
+    close: async () => undefined,
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Client IP Address Tests', () => {
+  let app: Express;
+  let transport: ReturnType<typeof memoryTransport>;
+
+  function useLogger(config: LoggerConfig): void {
+    app.use(createRequestLogger({ includeIp: true, trustedProxies: ['loopback'], transports: [transport], ...config }));
+    app.get('/api/books', (req, res) => res.json([]));
+  }
+
+  beforeEach(() => {
+    app = express();
+    transport = memoryTransport();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Client Address Resolution', () => {
+    const peer = /^(::ffff:)?127\.0\.0\.1$/;
+
+    it('should ignore forwarding headers from untrusted peers by default', async () => {
+      useLogger({ trustedProxies: 'express' });
+
+      await request(app).get('/api/books').set('X-Forwarded-For', '203.0.113.42').expect(200);
+
+      expect(transport.entries[0].ip).toMatch(peer);
+      expect(transport.entries[0].forwardedFor).toEqual(['203.0.113.42', expect.stringMatching(peer)]);
+    });
+
+    it("should follow Express's trust proxy setting by default", async () => {
+      app.set('trust proxy', 'loopback');
+      useLogger({ trustedProxies: 'express' });
+
+      await request(app).get('/api/books').set('X-Forwarded-For', '203.0.113.42').expect(200);
+
+      expect(transport.entries[0].ip).toBe('203.0.113.42');
+    });
+
+    it('should walk X-Forwarded-For from the right to the first untrusted address', async () => {
+      useLogger({ trustedProxies: ['loopback', '10.0.0.0/8'] });
+
+      await request(app).get('/api/books').set('X-Forwarded-For', '198.51.100.9, 203.0.113.7, 10.0.0.2').expect(200);
+
+      expect(transport.entries[0]).toMatchObject({
+        ip: '203.0.113.7',
+        forwardedFor: ['198.51.100.9', '203.0.113.7', '10.0.0.2', expect.stringMatching(peer)],
+      });
+    });
+
+    it('should trust a number of hops, or every hop', async () => {
+      useLogger({ trustedProxies: 2 });
+      await request(app).get('/api/books').set('X-Forwarded-For', '198.51.100.9, 203.0.113.7, 10.0.0.2').expect(200);
+
+      app = express();
+      useLogger({ trustedProxies: true });
+      await request(app).get('/api/books').set('X-Forwarded-For', '198.51.100.9, 203.0.113.7, 10.0.0.2').expect(200);
+
+      expect(transport.entries.map((entry) => entry.ip)).toEqual(['203.0.113.7', '198.51.100.9']);
+    });
+
+    it('should parse the Forwarded header, preferring it to X-Forwarded-For', async () => {
+      useLogger({ trustedProxies: true });
+
+      await request(app)
+        .get('/api/books')
+        .set('Forwarded', 'for=192.0.2.60;proto=http;by=203.0.113.43, For="[2001:db8:cafe::17]:4711", proto=https')
+        .set('X-Forwarded-For', '198.51.100.9')
+        .expect(200);
+
+      expect(transport.entries[0]).toMatchObject({
+        ip: '192.0.2.60',
+        forwardedFor: ['192.0.2.60', '2001:db8:cafe::17', 'unknown', expect.stringMatching(peer)],
+      });
+    });
+
+    it('should stop at quoted and obfuscated Forwarded addresses that are not trusted', async () => {
+      useLogger({ trustedProxies: ['loopback'] });
+
+      await request(app).get('/api/books').set('Forwarded', 'for="_gazonk;x,y", for="[2001:db8:cafe::17]"').expect(200);
+
+      expect(transport.entries[0]).toMatchObject({ ip: '2001:db8:cafe::17', forwardedFor: ['_gazonk;x,y', '2001:db8:cafe::17', expect.stringMatching(peer)] });
+    });
+
+    it('should strip ports and brackets from forwarded addresses', async () => {
+      useLogger({ trustedProxies: true });
+
+      await request(app).get('/api/books').set('X-Forwarded-For', '203.0.113.7:51234, [2001:db8::1]:443').expect(200);
+
+      expect(transport.entries[0].forwardedFor?.slice(0, 2)).toEqual(['203.0.113.7', '2001:db8::1']);
+    });
+
+    it('should fall back to X-Real-IP', async () => {
+      useLogger({});
+
+      await request(app).get('/api/books').set('X-Real-IP', '203.0.113.7').expect(200);
+
+      expect(transport.entries[0].ip).toBe('203.0.113.7');
+    });
+
+    it('should apply ipMode to the forwarding path', async () => {
+      useLogger({ ipMode: 'truncate', trustedProxies: true });
+
+      await request(app).get('/api/books').set('X-Forwarded-For', '203.0.113.7, 10.0.0.2').expect(200);
+
+      expect(transport.entries[0].forwardedFor?.slice(0, 2)).toEqual(['203.0.113.0', '10.0.0.0']);
+    });
+
+    it('should accept addresses, CIDR ranges and range names', () => {
+      expect(['10.0.0.0/8', '10.1.2.3', 'fd00::/8', '::ffff:10.0.0.0/104', 'Loopback', 'uniquelocal'].every(isProxyRange)).toBe(true);
+      expect(['10.0.0.0/33', '10.0.0.0/', 'fd00::/129', '10.0.0.0/8/8', 'localhost', ''].some(isProxyRange)).toBe(false);
+    });
+
+    it('should warn about invalid trustedProxies', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      useLogger({ trustedProxies: ['10.0.0.0/33'] });
+
+      await request(app).get('/api/books').set('X-Forwarded-For', '203.0.113.42').expect(200);
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('trustedProxies'));
+      expect(transport.entries[0].ip).toMatch(peer);
+    });
+  });
+
+  describe('Truncation', () => {
+    it.each([
+      ['203.0.113.42', '203.0.113.0'],
+      ['2001:db8:85a3:8d3:1319:8a2e:370:7348', '2001:db8:85a3::'],
+      ['2001:0DB8:0000::1', '2001:db8:0::'],
+      ['fe80::1%eth0', 'fe80:0:0::'],
+      ['::ffff:1.2.3.4', '::ffff:1.2.3.0'],
+      ['::ffff:102:304', '::ffff:1.2.3.0'],
+    ])('should truncate %s to %s', (ip, truncated) => {
+      expect(truncateIp(ip)).toBe(truncated);
+    });
+
+    it('should return undefined for values that are not IP addresses', () => {
+      expect(truncateIp('unknown')).toBeUndefined();
+      expect(truncateIp('1.2.3.4.5')).toBeUndefined();
+    });
+
+    it('should log truncated addresses', async () => {
+      useLogger({ ipMode: 'truncate' });
+
+      await request(app).get('/api/books').set('X-Forwarded-For', '203.0.113.42').expect(200);
+      await request(app).get('/api/books').set('X-Forwarded-For', 'not-an-ip').expect(200);
+
+      expect(transport.entries.map((entry) => entry.ip)).toEqual(['203.0.113.0', 'unknown']);
+    });
+  });
+
+  describe('Hashing', () => {
+    it('should hash an address to the same 16 hex characters within a window', () => {
+      const hash = createIpHasher('', 1, () => 0);
+
+      expect(hash('203.0.113.42')).toMatch(/^[0-9a-f]{16}$/);
+      expect(hash('203.0.113.42')).toBe(hash('203.0.113.42'));
+      expect(hash('203.0.113.42')).not.toBe(hash('203.0.113.43'));
+    });
+
+    it('should hash IPv4-mapped and differently written IPv6 addresses like their canonical form', () => {
+      const hash = createIpHasher('', 1, () => 0);
+
+      expect(hash('::ffff:1.2.3.4')).toBe(hash('1.2.3.4'));
+      expect(hash('::FFFF:102:304')).toBe(hash('1.2.3.4'));
+      expect(hash('2001:db8::1')).toBe(hash('2001:0db8:0:0:0:0:0:0001'));
+    });
+
+    it('should change hashes when the key rotates', () => {
+      let now = 0;
+      const hash = createIpHasher('', 7, () => now);
+      const first = hash('203.0.113.42');
+
+      now = 7 * DAY_MS - 1;
+      expect(hash('203.0.113.42')).toBe(first);
+
+      now = 7 * DAY_MS;
+      expect(hash('203.0.113.42')).not.toBe(first);
+    });
+
+    it('should hash alike across instances sharing a secret, and differently without one', () => {
+      const clock = (): number => 3 * DAY_MS;
+
+      expect(createIpHasher('s3cret', 1, clock)('1.2.3.4')).toBe(createIpHasher('s3cret', 1, clock)('1.2.3.4'));
+      expect(createIpHasher('s3cret', 1, clock)('1.2.3.4')).not.toBe(createIpHasher('other', 1, clock)('1.2.3.4'));
+      expect(createIpHasher('', 1, clock)('1.2.3.4')).not.toBe(createIpHasher('', 1, clock)('1.2.3.4'));
+    });
+
+    it('should log hashed addresses', async () => {
+      useLogger({ ipMode: 'hash', ipHashSecret: 's3cret' });
+      const expected = createIpAnonymizer({ ipMode: 'hash', ipHashSecret: 's3cret', ipHashRotationDays: 1 })('203.0.113.42');
+
+      await request(app).get('/api/books').set('X-Forwarded-For', '203.0.113.42').expect(200);
+      await request(app).get('/api/books').set('X-Forwarded-For', '::ffff:203.0.113.42').expect(200);
+
+      expect(transport.entries.map((entry) => entry.ip)).toEqual([expected, expected]);
+    });
+  });
+
+  describe('Modes', () => {
+    it('should log addresses as received by default', async () => {
+      useLogger({});
+
+      await request(app).get('/api/books').set('X-Forwarded-For', '203.0.113.42').expect(200);
+
+      expect(transport.entries[0].ip).toBe('203.0.113.42');
+    });
+
+    it('should omit the address with "none"', async () => {
+      useLogger({ ipMode: 'none' });
+
+      await request(app).get('/api/books').set('X-Forwarded-For', '203.0.113.42').expect(200);
+
+      expect(transport.entries[0]).not.toHaveProperty('ip');
+    });
+
+    it('should apply the mode to :remote-addr without includeIp and leave W3C c-ip empty', async () => {
+      const w3c = memoryTransport('w3c');
+      transport = memoryTransport(':remote-addr');
+      app.use(createRequestLogger({ ipMode: 'truncate', transports: [transport, w3c] }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(transport.lines[0]).toMatch(/^(::ffff:)?127\.0\.0\.0\n$/);
+      expect(w3c.lines[w3c.lines.length - 1]).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2} - GET /);
+    });
+
+    it('should leave :remote-addr empty with "none"', async () => {
+      transport = memoryTransport('[:remote-addr]');
+      app.use(createRequestLogger({ ipMode: 'none', transports: [transport] }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(transport.lines[0]).toBe('[-]\n');
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should warn about invalid options and log no address for an invalid mode', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      useLogger({ ipMode: 'mask' as any, ipHashSecret: 42 as any, ipHashRotationDays: 0 });
+
+      await request(app).get('/api/books').set('X-Forwarded-For', '203.0.113.42').expect(200);
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('ipMode'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('ipHashSecret'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('ipHashRotationDays'));
+      expect(transport.entries[0]).not.toHaveProperty('ip');
+    });
+  });
+});
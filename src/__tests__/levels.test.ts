@@ -0,0 +1,188 @@
+/**
+ * Severity level tests
+ * Tests the default and custom levels of entries, minLevel, per-transport
+ * levels and how the formats and syslog carry the level
+ */
+
+import express, { Express } from 'express';
+import request from 'supertest';
+import { createRequestLogger, defaultLevelFor, LogEntry, LoggerConfig, Transport } from '../middleware';
+import { formatAsEcs, formatAsJson, formatAsLogfmt, formatAsText } from '../middleware/formatters';
+import { syslogSeverity } from '../middleware/transports/syslog';
+
+/**
+ * Transport that keeps entries in memory.
+ */
+function memoryTransport(format?: Transport['format'], level?: Transport['level']): Transport & { entries: LogEntry[]; lines: string[] } {
+  const entries: LogEntry[] = [];
+  const lines: string[] = [];
+  return {
+    format,
+    level,
+    entries,
+    lines,
+    write: (entry, formatted) => { entries.push(entry); lines.push(formatted); },
+    flush: async () => undefined,
+    close: async () => undefined,
+  };
+}
+
+const entry: LogEntry = {
+  timestamp: '2026-10-19T13:55:36.123Z',
+  level: 'warn',
+  method: 'GET',
+  url: '/api/books/0',
+  status: 404,
+  durationMs: 0.9,
+};
+
+describe('Severity Level Tests', () => {
+  let app: Express;
+  let transport: ReturnType<typeof memoryTransport>;
+
+  function useLogger(config: LoggerConfig): void {
+    app.use(createRequestLogger({ logOnResponse: true, transports: [transport], ...config }));
+    app.get('/health', (req, res) => res.json({ status: 'ok' }));
+    app.get('/api/books', (req, res) => res.json([]));
+    app.get('/api/missing', (req, res) => res.status(404).end());
+    app.get('/api/fail', (req, res) => res.status(503).end());
+  }
+
+  beforeEach(() => {
+    app = express();
+    transport = memoryTransport();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Default Levels', () => {
+    it.each([
+      [{ status: 200 }, 'info'],
+      [{ status: 304 }, 'info'],
+      [{ status: 404 }, 'warn'],
+      [{ status: 503 }, 'error'],
+      [{ status: 200, aborted: true }, 'error'],
+      [{}, 'info'],
+    ])('should map %j to %s', (outcome, level) => {
+      expect(defaultLevelFor({ timestamp: '', method: 'GET', url: '/', ...outcome })).toBe(level);
+    });
+
+    it('should set the level of each entry from its outcome', async () => {
+      useLogger({});
+
+      await request(app).get('/api/books').expect(200);
+      await request(app).get('/api/missing').expect(404);
+      await request(app).get('/api/fail').expect(503);
+
+      expect(transport.entries.map((logged) => logged.level)).toEqual(['info', 'warn', 'error']);
+    });
+  });
+
+  describe('levelFor', () => {
+    it('should use a custom level function', async () => {
+      useLogger({ levelFor: (logged) => logged.url === '/health' ? 'debug' : defaultLevelFor(logged) });
+
+      await request(app).get('/health').expect(200);
+      await request(app).get('/api/missing').expect(404);
+
+      expect(transport.entries.map((logged) => logged.level)).toEqual(['debug', 'warn']);
+    });
+
+    it('should fall back to the default level when levelFor throws or returns an unknown level', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      useLogger({ levelFor: (logged) => { if (logged.status === 503) { throw new Error('boom'); } return 'verbose' as any; } });
+
+      await request(app).get('/api/fail').expect(503);
+      await request(app).get('/api/missing').expect(404);
+
+      expect(transport.entries.map((logged) => logged.level)).toEqual(['error', 'warn']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('[Request Logger] levelFor failed for GET /api/fail: boom');
+      expect(consoleErrorSpy).toHaveBeenCalledWith('[Request Logger] levelFor returned an unknown level for GET /api/missing: verbose');
+    });
+  });
+
+  describe('Thresholds', () => {
+    it('should not write entries below minLevel', async () => {
+      useLogger({ minLevel: 'warn' });
+
+      await request(app).get('/api/books').expect(200);
+      await request(app).get('/api/missing').expect(404);
+      await request(app).get('/api/fail').expect(503);
+
+      expect(transport.entries.map((logged) => logged.status)).toEqual([404, 503]);
+    });
+
+    it('should only write entries meeting a transport\'s level to it', async () => {
+      const errors = memoryTransport('text', 'error');
+      app.use(createRequestLogger({ logOnResponse: true, transports: [transport, errors] }));
+      app.get('/api/books', (req, res) => res.json([]));
+      app.get('/api/fail', (req, res) => res.status(503).end());
+
+      await request(app).get('/api/books').expect(200);
+      await request(app).get('/api/fail').expect(503);
+
+      expect(transport.entries).toHaveLength(2);
+      expect(errors.lines).toEqual([expect.stringMatching(/^\[.*\] \[ERROR\] GET \/api\/fail 503 /)]);
+    });
+  });
+
+  describe('Formats', () => {
+    it('should put the level after the timestamp in JSON and logfmt', () => {
+      expect(Object.keys(JSON.parse(formatAsJson({ method: 'GET', timestamp: entry.timestamp, url: '/', level: 'info' })))).toEqual(['timestamp', 'level', 'method', 'url']);
+      expect(formatAsLogfmt({ method: 'GET', url: '/', timestamp: entry.timestamp, level: 'info' })).toBe('ts=2026-10-19T13:55:36.123Z level=info method=GET url=/\n');
+    });
+
+    it('should print the level in text', () => {
+      expect(formatAsText(entry)).toBe('[2026-10-19T13:55:36.123Z] [WARN] GET /api/books/0 404 0.9ms in=0B out=0B\n');
+    });
+
+    it('should map the level to log.level in ECS', () => {
+      expect(JSON.parse(formatAsEcs(entry)).log).toEqual({ level: 'warn' });
+    });
+
+    it('should map the level to the syslog severity', () => {
+      expect([
+        syslogSeverity({ ...entry, level: 'debug' }),
+        syslogSeverity({ ...entry, level: 'info' }),
+        syslogSeverity(entry),
+        syslogSeverity({ ...entry, level: 'error' }),
+        syslogSeverity({ ...entry, level: undefined }),
+      ]).toEqual([7, 6, 4, 3, 4]);
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should warn about invalid level options and use the defaults', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      transport = memoryTransport(undefined, 'fatal' as any);
+      useLogger({ levelFor: 'warn' as any, minLevel: 'critical' as any });
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('levelFor'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('minLevel'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('transport level'));
+      expect(transport.entries.map((logged) => logged.level)).toEqual(['info']);
+    });
+
+    it('should warn that minLevel above info requires logOnResponse', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      useLogger({ logOnResponse: false, minLevel: 'warn' });
+
+      await request(app).get('/api/missing').expect(404);
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith('minLevel "warn" requires logOnResponse or a custom levelFor. No entries will be written.');
+      expect(transport.entries).toHaveLength(0);
+    });
+
+    it('should not warn about minLevel with a custom levelFor', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      useLogger({ logOnResponse: false, minLevel: 'error', levelFor: (logged) => logged.method === 'DELETE' ? 'error' : 'info' });
+
+      expect(consoleWarnSpy).not.toHaveBeenCalled();
+    });
+  });
+});
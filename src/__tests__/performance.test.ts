@@ -3,10 +3,10 @@
  * Tests middleware latency impact and high-volume scenarios
  */
 
-import express, { Express } from 'express';
+import express, { Express, NextFunction, Request, Response } from 'express';
 import request from 'supertest';
 import { createRequestLogger } from '../middleware';
-import { promises as fs } from 'fs';
+import fsModule, { promises as fs } from 'fs';
 import * as path from 'path';
 
 describe('Performance Tests', () => {
@@ -276,4 +276,138 @@ describe('Performance Tests', () => {
       expect(duration).toBeLessThan(5000);
     });
   });
+
+  describe('Buffered Writer Throughput', () => {
+    const iterations = 200;
+
+    const mockReq = () => ({
+      method: 'GET',
+      url: '/test',
+      originalUrl: '/test',
+      headers: {},
+      socket: {},
+    }) as Request;
+
+    /**
+     * Invokes a middleware sequentially and measures the time until each
+     * call hands control to next().
+     */
+    const timeUntilNext = async (
+      middleware: (req: Request, res: Response, next: NextFunction) => unknown
+    ): Promise<number> => {
+      const start = process.hrtime.bigint();
+      for (let i = 0; i < iterations; i++) {
+        await new Promise<void>(resolve => middleware(mockReq(), {} as Response, () => resolve()));
+      }
+      return Number(process.hrtime.bigint() - start) / 1e6;
+    };
+
+    it('should hand control to next() faster than awaiting a file write per request', async () => {
+      const unbufferedLogFile = path.join(testLogDir, 'unbuffered.log');
+
+      // The previous strategy: mkdir + appendFile awaited before next()
+      const unbufferedLogger = async (req: Request, res: Response, next: NextFunction) => {
+        await fs.mkdir(path.dirname(unbufferedLogFile), { recursive: true });
+        await fs.appendFile(unbufferedLogFile, JSON.stringify({ method: req.method, url: req.originalUrl }) + '\n');
+        next();
+      };
+      const bufferedLogger = createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+      });
+
+      const unbufferedTime = await timeUntilNext(unbufferedLogger);
+      const bufferedTime = await timeUntilNext(bufferedLogger);
+      await bufferedLogger.close();
+
+      // Buffered logging should cost a fraction of a per-request file write
+      expect(bufferedTime).toBeLessThan(unbufferedTime / 2);
+
+      // ...without losing any entries
+      const logContent = await fs.readFile(testLogFile, 'utf8');
+      expect(logContent.trim().split('\n').length).toBe(iterations);
+    });
+
+    it('should batch many entries into few writes', async () => {
+      const requestLogger = createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+        flushInterval: 60000,
+      });
+
+      const writeSpy = jest.spyOn(fsModule.WriteStream.prototype, 'write');
+
+      await timeUntilNext(requestLogger);
+      await requestLogger.flush();
+
+      // All entries queued within one interval are written as a single batch
+      // (other loggers still open in this process may write concurrently)
+      const ownWrites = writeSpy.mock.contexts.filter(stream => path.resolve(String((stream as fsModule.WriteStream).path)) === path.resolve(testLogFile));
+      expect(ownWrites).toHaveLength(1);
+      writeSpy.mockRestore();
+      await requestLogger.close();
+
+      const logContent = await fs.readFile(testLogFile, 'utf8');
+      expect(logContent.trim().split('\n').length).toBe(iterations);
+    });
+
+    it('should flush immediately once maxBufferSize is reached', async () => {
+      const requestLogger = createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+        flushInterval: 60000,
+        maxBufferSize: 1024,
+      });
+
+      await timeUntilNext(requestLogger);
+
+      // Wait for the size-triggered flushes, well before flushInterval
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const logContent = await fs.readFile(testLogFile, 'utf8');
+      expect(logContent.trim().split('\n').length).toBeGreaterThan(iterations / 2);
+
+      await requestLogger.close();
+    });
+
+    it('should match or beat HTTP throughput of per-request file writes', async () => {
+      const unbufferedLogFile = path.join(testLogDir, 'unbuffered-http.log');
+      const requestCount = 100;
+
+      const unbufferedApp = express();
+      unbufferedApp.use(async (req, res, next) => {
+        await fs.mkdir(path.dirname(unbufferedLogFile), { recursive: true });
+        await fs.appendFile(unbufferedLogFile, JSON.stringify({ method: req.method, url: req.originalUrl }) + '\n');
+        next();
+      });
+      unbufferedApp.get('/test', (req, res) => res.json({ ok: true }));
+
+      const requestLogger = createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+      });
+      const bufferedApp = express();
+      bufferedApp.use(requestLogger);
+      bufferedApp.get('/test', (req, res) => res.json({ ok: true }));
+
+      const measure = async (target: Express): Promise<number> => {
+        const server = target.listen(0);
+        const start = Date.now();
+        await Promise.all(Array.from({ length: requestCount }, () => request(server).get('/test').expect(200)));
+        const elapsed = Date.now() - start;
+        await new Promise(resolve => server.close(resolve));
+        return elapsed;
+      };
+
+      const unbufferedTime = await measure(unbufferedApp);
+      const bufferedTime = await measure(bufferedApp);
+      await requestLogger.close();
+
+      // Allow for scheduling noise, but buffered logging must not be slower
+      expect(bufferedTime).toBeLessThanOrEqual(unbufferedTime * 1.2);
+
+      const logContent = await fs.readFile(testLogFile, 'utf8');
+      expect(logContent.trim().split('\n').length).toBe(requestCount);
+    });
+  });
 });
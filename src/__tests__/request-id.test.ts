@@ -0,0 +1,203 @@
+/**
+ * Request ID tests
+ * Tests ID propagation and generation, the response header and the
+ * AsyncLocalStorage request context
+ */
+
+import express, { Express } from 'express';
+import request from 'supertest';
+import { createRequestLogger, getRequestContext, LogEntry, LoggerConfig, Transport } from '../middleware';
+import { generateUlid } from '../middleware/request-id';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+const ULID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+
+/**
+ * Transport that keeps entries and formatted lines in memory.
+ */
+function memoryTransport(format?: Transport['format']): Transport & { entries: LogEntry[]; lines: string[] } {
+  const entries: LogEntry[] = [];
+  const lines: string[] = [];
+  return {
+    format,
+    entries,
+    lines,
+    write: (entry, formatted) => {
+      entries.push(entry);
+      lines.push(formatted);
+    },
+    flush: async () => undefined,
+    close: async () => undefined,
+  };
+}
+
+describe('Request ID Tests', () => {
+  let app: Express;
+  let transport: ReturnType<typeof memoryTransport>;
+
+  /**
+   * Mounts a logger with the given config, logging into the memory transport.
+   */
+  function useLogger(config: LoggerConfig = {}): void {
+    app.use(createRequestLogger({ transports: [transport], ...config }));
+    app.get('/api/books', (req, res) => res.json([]));
+  }
+
+  beforeEach(() => {
+    app = express();
+    transport = memoryTransport();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Propagation', () => {
+    it('should generate a UUID, echo it and add it to the entry', async () => {
+      useLogger();
+
+      const response = await request(app).get('/api/books').expect(200);
+
+      expect(response.headers['x-request-id']).toMatch(UUID_PATTERN);
+      expect(transport.entries[0].requestId).toBe(response.headers['x-request-id']);
+      expect(JSON.parse(transport.lines[0]).requestId).toBe(response.headers['x-request-id']);
+    });
+
+    it('should give every request its own ID', async () => {
+      useLogger();
+
+      await request(app).get('/api/books').expect(200);
+      await request(app).get('/api/books').expect(200);
+
+      expect(transport.entries[0].requestId).not.toBe(transport.entries[1].requestId);
+    });
+
+    it('should keep a valid incoming ID', async () => {
+      useLogger();
+
+      const response = await request(app).get('/api/books').set('X-Request-Id', 'edge-7f3c2a1e').expect(200);
+
+      expect(response.headers['x-request-id']).toBe('edge-7f3c2a1e');
+      expect(transport.entries[0].requestId).toBe('edge-7f3c2a1e');
+    });
+
+    it('should replace incoming IDs that do not match the pattern', async () => {
+      useLogger();
+
+      const response = await request(app).get('/api/books').set('X-Request-Id', 'bad id" injected=1').expect(200);
+
+      expect(response.headers['x-request-id']).toMatch(UUID_PATTERN);
+      expect(transport.entries[0].requestId).toMatch(UUID_PATTERN);
+    });
+
+    it('should use the configured header and pattern', async () => {
+      useLogger({ requestIdHeader: 'X-Correlation-Id', requestIdPattern: /^corr-\d+$/ });
+
+      const accepted = await request(app).get('/api/books').set('X-Correlation-Id', 'corr-42').expect(200);
+      const rejected = await request(app).get('/api/books').set('X-Correlation-Id', 'edge-7f3c2a1e').expect(200);
+
+      expect(accepted.headers['x-correlation-id']).toBe('corr-42');
+      expect(accepted.headers['x-request-id']).toBeUndefined();
+      expect(rejected.headers['x-correlation-id']).toMatch(UUID_PATTERN);
+    });
+
+    it('should accept the same ID every time with a global pattern', async () => {
+      useLogger({ requestIdPattern: /^edge-[0-9a-f]+$/g });
+
+      const first = await request(app).get('/api/books').set('X-Request-Id', 'edge-7f3c2a1e').expect(200);
+      const second = await request(app).get('/api/books').set('X-Request-Id', 'edge-7f3c2a1e').expect(200);
+
+      expect(first.headers['x-request-id']).toBe('edge-7f3c2a1e');
+      expect(second.headers['x-request-id']).toBe('edge-7f3c2a1e');
+      expect(transport.entries.map(entry => entry.requestId)).toEqual(['edge-7f3c2a1e', 'edge-7f3c2a1e']);
+    });
+  });
+
+  describe('Generators', () => {
+    it('should generate ULIDs', async () => {
+      useLogger({ requestIdGenerator: 'ulid' });
+
+      const response = await request(app).get('/api/books').expect(200);
+
+      expect(response.headers['x-request-id']).toMatch(ULID_PATTERN);
+    });
+
+    it('should encode the creation time at the start of a ULID', () => {
+      expect(generateUlid(0).slice(0, 10)).toBe('0000000000');
+      expect(generateUlid(1469918176385).slice(0, 10)).toBe('01ARYZ6S41');
+      expect(generateUlid(1000) < generateUlid(2000)).toBe(true);
+    });
+
+    it('should use a custom generator', async () => {
+      let counter = 0;
+      useLogger({ requestIdGenerator: () => `req-${++counter}` });
+
+      await request(app).get('/api/books').expect(200);
+      await request(app).get('/api/books').expect(200);
+
+      expect(transport.entries.map(entry => entry.requestId)).toEqual(['req-1', 'req-2']);
+    });
+
+    it('should warn about invalid request ID options and use the defaults', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      useLogger({ requestIdHeader: 'Bad Header', requestIdGenerator: 'nanoid' as any, requestIdPattern: '.*' as any });
+
+      const response = await request(app).get('/api/books').expect(200);
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('requestIdHeader'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('requestIdGenerator'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('requestIdPattern'));
+      expect(response.headers['x-request-id']).toMatch(UUID_PATTERN);
+    });
+  });
+
+  describe('Request Context', () => {
+    it('should expose the request ID to handlers across async calls', async () => {
+      app.use(createRequestLogger({ transports: [transport] }));
+      app.get('/api/books', async (req, res) => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        const lookup = await Promise.resolve().then(() => getRequestContext()?.requestId);
+        res.json({ requestId: lookup });
+      });
+
+      const response = await request(app).get('/api/books').set('X-Request-Id', 'ctx-123').expect(200);
+
+      expect(response.body).toEqual({ requestId: 'ctx-123' });
+    });
+
+    it('should keep concurrent requests apart', async () => {
+      app.use(createRequestLogger({ transports: [transport] }));
+      app.get('/slow/:delay', async (req, res) => {
+        await new Promise(resolve => setTimeout(resolve, Number(req.params.delay)));
+        res.json({ requestId: getRequestContext()?.requestId });
+      });
+
+      const responses = await Promise.all([
+        request(app).get('/slow/30').set('X-Request-Id', 'first'),
+        request(app).get('/slow/1').set('X-Request-Id', 'second'),
+      ]);
+
+      expect(responses.map(response => response.body.requestId)).toEqual(['first', 'second']);
+    });
+
+    it('should return undefined outside a request', () => {
+      expect(getRequestContext()).toBeUndefined();
+    });
+  });
+
+  describe('Formats', () => {
+    it('should include the request ID in ECS, logfmt and templates', async () => {
+      const ecs = memoryTransport('ecs');
+      const logfmt = memoryTransport('logfmt');
+      const template = memoryTransport(':request-id :method :url');
+      app.use(createRequestLogger({ transports: [ecs, logfmt, template] }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').set('X-Request-Id', 'fmt-1').expect(200);
+
+      expect(JSON.parse(ecs.lines[0]).http.request.id).toBe('fmt-1');
+      expect(logfmt.lines[0]).toContain(' requestId=fmt-1');
+      expect(template.lines[0]).toBe('fmt-1 GET /api/books\n');
+    });
+  });
+});
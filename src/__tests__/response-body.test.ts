@@ -0,0 +1,189 @@
+/**
+ * Response body capture tests
+ * Tests the status predicate, streamed and compressed responses, truncation
+ * and redaction of captured response bodies
+ */
+
+import express, { Express } from 'express';
+import request from 'supertest';
+import * as zlib from 'zlib';
+import { createRequestLogger, LogEntry, LoggerConfig, Transport } from '../middleware';
+
+/**
+ * Transport that keeps entries and formatted lines in memory.
+ */
+function memoryTransport(format?: Transport['format']): Transport & { entries: LogEntry[]; lines: string[] } {
+  const entries: LogEntry[] = [];
+  const lines: string[] = [];
+  return {
+    format,
+    entries,
+    lines,
+    write: (entry, formatted) => {
+      entries.push(entry);
+      lines.push(formatted);
+    },
+    flush: async () => undefined,
+    close: async () => undefined,
+  };
+}
+
+describe('Response Body Capture Tests', () => {
+  let app: Express;
+  let transport: ReturnType<typeof memoryTransport>;
+
+  function useLogger(config: LoggerConfig = {}): void {
+    app.use(createRequestLogger({ logOnResponse: true, captureResponseBody: true, transports: [transport], ...config }));
+    app.get('/api/books', (req, res) => res.json([{ id: 1, title: 'Dune' }]));
+    app.get('/api/books/:id', (req, res) => res.status(404).json({ error: 'Book not found', id: req.params.id }));
+    app.post('/api/books', (req, res) => res.status(500).send('Database unavailable'));
+  }
+
+  beforeEach(() => {
+    app = express();
+    transport = memoryTransport();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Status Predicate', () => {
+    it('should capture error response bodies only, by default', async () => {
+      useLogger();
+
+      await request(app).get('/api/books').expect(200);
+      await request(app).get('/api/books/42').expect(404);
+      await request(app).post('/api/books').expect(500);
+
+      expect(transport.entries.map((entry) => entry.responseBody)).toEqual([
+        undefined,
+        { error: 'Book not found', id: '42' },
+        'Database unavailable',
+      ]);
+      expect(transport.entries[1]).toMatchObject({ status: 404, responseBytes: 36 });
+    });
+
+    it('should use a custom predicate', async () => {
+      useLogger({ captureResponseBodyWhen: (status) => status >= 500 });
+
+      await request(app).get('/api/books/42').expect(404);
+      await request(app).post('/api/books').expect(500);
+
+      expect(transport.entries.map((entry) => entry.responseBody)).toEqual([undefined, 'Database unavailable']);
+    });
+
+    it('should not capture response bodies by default', async () => {
+      app.use(createRequestLogger({ logOnResponse: true, transports: [transport] }));
+      app.get('/api/books/:id', (req, res) => res.status(404).json({ error: 'Book not found' }));
+
+      await request(app).get('/api/books/42').expect(404);
+
+      expect(transport.entries[0].responseBody).toBeUndefined();
+    });
+
+    it('should keep serving responses when the predicate throws', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      useLogger({ captureResponseBodyWhen: () => { throw new Error('boom'); } });
+
+      const response = await request(app).get('/api/books/42').expect(404);
+
+      expect(response.body).toEqual({ error: 'Book not found', id: '42' });
+      expect(transport.entries[0].responseBody).toBeUndefined();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('[Request Logger] captureResponseBodyWhen failed'));
+    });
+  });
+
+  describe('Streamed and Compressed Responses', () => {
+    it('should copy streamed bodies up to the cap and pass the rest through', async () => {
+      useLogger({ maxResponseBodyBytes: 24 });
+      app.get('/export', (req, res) => {
+        res.status(503).type('text/plain');
+        res.write('line 1: partial export\n');
+        res.write('line 2: upstream timeout\n');
+        res.end('line 3: giving up\n');
+      });
+
+      const response = await request(app).get('/export').expect(503);
+
+      expect(response.text).toBe('line 1: partial export\nline 2: upstream timeout\nline 3: giving up\n');
+      expect(transport.entries[0].responseBody).toBe('line 1: partial export\nl...[TRUNCATED]');
+    });
+
+    it.each([
+      ['gzip', zlib.gzipSync],
+      ['deflate', zlib.deflateSync],
+      ['br', zlib.brotliCompressSync],
+    ] as const)('should decompress %s bodies', async (encoding, compress) => {
+      useLogger();
+      app.get('/compressed', (req, res) => {
+        res.status(400).set({ 'Content-Type': 'application/json', 'Content-Encoding': encoding });
+        res.end(compress(Buffer.from('{"error":"Invalid page size"}')));
+      });
+
+      await request(app).get('/compressed').expect(400);
+      // Compressed bodies are decompressed in the background
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(transport.entries[0].responseBody).toEqual({ error: 'Invalid page size' });
+    });
+
+    it('should decompress the start of long compressed bodies', async () => {
+      useLogger({ maxResponseBodyBytes: 32 });
+      const text = Array.from({ length: 400 }, (_, index) => `error ${index}`).join('\n');
+      app.get('/compressed', (req, res) => {
+        res.status(500).set({ 'Content-Type': 'text/plain', 'Content-Encoding': 'gzip' });
+        res.end(zlib.gzipSync(text));
+      });
+
+      await request(app).get('/compressed').expect(500);
+      // Compressed bodies are decompressed in the background
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(transport.entries[0].responseBody).toBe(`${text.slice(0, 32)}...[TRUNCATED]`);
+    });
+
+    it('should skip bodies with unknown encodings or content types', async () => {
+      useLogger();
+      app.get('/zstd', (req, res) => res.status(500).set({ 'Content-Type': 'text/plain', 'Content-Encoding': 'zstd' }).end(Buffer.from([0x28, 0xb5])));
+      app.get('/image', (req, res) => res.status(404).type('image/png').end(Buffer.from([0x89, 0x50, 0x4e, 0x47])));
+
+      await request(app).get('/zstd').buffer(true).parse((res, callback) => res.on('data', () => undefined).on('end', () => callback(null, null))).expect(500);
+      await request(app).get('/image').expect(404);
+
+      expect(transport.entries.map((entry) => entry.responseBody)).toEqual([undefined, undefined]);
+    });
+  });
+
+  describe('Logging', () => {
+    it('should redact body fields in response bodies', async () => {
+      useLogger();
+      app.post('/api/login', (req, res) => res.status(401).json({ error: 'Invalid credentials', token: 'stale-token' }));
+
+      await request(app).post('/api/login').expect(401);
+
+      expect(transport.entries[0].responseBody).toEqual({ error: 'Invalid credentials', token: '[REDACTED]' });
+    });
+
+    it('should write the body to ECS as http.response.body.content', async () => {
+      const ecs = memoryTransport('ecs');
+      transport = ecs;
+      useLogger();
+
+      await request(app).get('/api/books/7').expect(404);
+
+      expect(JSON.parse(ecs.lines[0]).http.response.body).toEqual({ bytes: 35, content: '{"error":"Book not found","id":"7"}' });
+    });
+
+    it('should require logOnResponse', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      useLogger({ logOnResponse: false, captureResponseBodyWhen: 'errors' as any });
+
+      await request(app).get('/api/books/42').expect(404);
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('captureResponseBodyWhen'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith('captureResponseBody requires logOnResponse. Response bodies will not be captured.');
+      expect(transport.entries[0].responseBody).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Log rotation tests
+ * Tests size-based rotation, gzip archives, date-stamped files and retention
+ */
+
+import express, { Express } from 'express';
+import request from 'supertest';
+import { createRequestLogger } from '../middleware';
+import { archivePath, removeExpiredLogFiles, resolveLogFilePath } from '../middleware/rotation';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { gunzipSync } from 'zlib';
+
+describe('Log Rotation Tests', () => {
+  let app: Express;
+  const testLogDir = './test-logs';
+  const testLogFile = path.join(testLogDir, 'rotation-test.log');
+
+  beforeEach(async () => {
+    try {
+      await fs.rm(testLogDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore if directory doesn't exist
+    }
+
+    app = express();
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testLogDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  /**
+   * Reads the active log file and every archive, newest archive last.
+   */
+  async function readAllLogLines(): Promise<string[]> {
+    const files = await fs.readdir(testLogDir);
+    const archives = files
+      .filter(file => file.endsWith('.gz'))
+      .sort((a, b) => Number(b.split('.')[1]) - Number(a.split('.')[1]));
+
+    const lines: string[] = [];
+    for (const archive of archives) {
+      const content = gunzipSync(await fs.readFile(path.join(testLogDir, archive))).toString('utf8');
+      lines.push(...content.trim().split('\n'));
+    }
+
+    const active = await fs.readFile(testLogFile, 'utf8').catch(() => '');
+    lines.push(...active.trim().split('\n').filter(Boolean));
+    return lines;
+  }
+
+  describe('Archive Naming', () => {
+    it('should number archives between the file name and extension', () => {
+      expect(archivePath('./logs/requests.log', 1)).toBe(path.join('logs', 'requests.1.log.gz'));
+      expect(archivePath('./logs/requests.log', 3)).toBe(path.join('logs', 'requests.3.log.gz'));
+      expect(archivePath('/var/log/access', 2)).toBe('/var/log/access.2.gz');
+    });
+  });
+
+  describe('Size-Based Rotation', () => {
+    it('should roll the log file into a gzip archive once it passes maxFileSize', async () => {
+      const requestLogger = createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+        maxFileSize: 1024,
+        maxFiles: 20,
+      });
+      app.use(requestLogger);
+      app.get('/api/books/:id', (req, res) => res.json({ ok: true }));
+
+      for (let i = 0; i < 30; i++) {
+        await request(app).get(`/api/books/${i}`).expect(200);
+      }
+      await requestLogger.close();
+
+      const files = await fs.readdir(testLogDir);
+      expect(files).toContain('rotation-test.1.log.gz');
+
+      // No file, compressed or not, exceeds the limit
+      const active = await fs.stat(testLogFile);
+      expect(active.size).toBeLessThanOrEqual(1024);
+      for (const archive of files.filter(file => file.endsWith('.gz'))) {
+        const content = gunzipSync(await fs.readFile(path.join(testLogDir, archive)));
+        expect(content.length).toBeLessThanOrEqual(1024);
+      }
+
+      // Entries stay in order across archives and the active file
+      const urls = (await readAllLogLines()).map(line => JSON.parse(line).url);
+      expect(urls).toEqual(Array.from({ length: 30 }, (_, i) => `/api/books/${i}`));
+    });
+
+    it('should keep at most maxFiles archives', async () => {
+      const requestLogger = createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+        maxFileSize: 200,
+        maxFiles: 2,
+      });
+      app.use(requestLogger);
+      app.get('/test', (req, res) => res.json({ ok: true }));
+
+      for (let i = 0; i < 20; i++) {
+        await request(app).get('/test').expect(200);
+        await requestLogger.flush();
+      }
+      await requestLogger.close();
+
+      const archives = (await fs.readdir(testLogDir)).filter(file => file.endsWith('.gz'));
+      expect(archives.sort()).toEqual(['rotation-test.1.log.gz', 'rotation-test.2.log.gz']);
+    });
+
+    it('should not lose or split entries when rotating under concurrent load', async () => {
+      const requestLogger = createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+        maxFileSize: 2048,
+        maxFiles: 100,
+      });
+      app.use(requestLogger);
+      app.get('/api/books/:id', (req, res) => res.json({ ok: true }));
+
+      const requests = [];
+      for (let i = 0; i < 200; i++) {
+        requests.push(request(app).get(`/api/books/${i}`).expect(200));
+      }
+      await Promise.all(requests);
+      await requestLogger.close();
+
+      const lines = await readAllLogLines();
+      expect(lines.length).toBe(200);
+
+      // Every line is a complete entry, and every request is present exactly once
+      const urls = lines.map(line => JSON.parse(line).url).sort();
+      const expected = Array.from({ length: 200 }, (_, i) => `/api/books/${i}`).sort();
+      expect(urls).toEqual(expected);
+
+      // Staging files are cleaned up once compressed
+      const files = await fs.readdir(testLogDir);
+      expect(files.filter(file => file.endsWith('.rotating'))).toEqual([]);
+    });
+
+    it('should compress files left behind by a previous process', async () => {
+      await fs.mkdir(testLogDir, { recursive: true });
+      await fs.writeFile(`${testLogFile}.1700000000000-1.rotating`, '{"url":"/before-restart"}\n');
+
+      const requestLogger = createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+        maxFileSize: 1024,
+      });
+      app.use(requestLogger);
+      app.get('/test', (req, res) => res.json({ ok: true }));
+
+      await request(app).get('/test').expect(200);
+      await requestLogger.close();
+
+      const archive = gunzipSync(await fs.readFile(path.join(testLogDir, 'rotation-test.1.log.gz'))).toString('utf8');
+      expect(archive).toBe('{"url":"/before-restart"}\n');
+
+      const files = await fs.readdir(testLogDir);
+      expect(files.filter(file => file.endsWith('.rotating'))).toEqual([]);
+    });
+
+    it('should not rotate when maxFileSize is not set', async () => {
+      const requestLogger = createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+      });
+      app.use(requestLogger);
+      app.get('/test', (req, res) => res.json({ ok: true }));
+
+      for (let i = 0; i < 20; i++) {
+        await request(app).get('/test').expect(200);
+      }
+      await requestLogger.close();
+
+      expect(await fs.readdir(testLogDir)).toEqual(['rotation-test.log']);
+    });
+  });
+
+  describe('Time-Based Rotation', () => {
+    const day1 = Date.parse('2026-10-19T13:55:36Z');
+    const day2 = Date.parse('2026-10-20T00:00:01Z');
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should resolve date-stamped paths from the configured path', () => {
+      expect(resolveLogFilePath('./logs/requests.log', 'daily', day1)).toBe(path.join('logs', 'requests-2026-10-19.log'));
+      expect(resolveLogFilePath('./logs/requests.log', 'hourly', day1)).toBe(path.join('logs', 'requests-2026-10-19-13.log'));
+      expect(resolveLogFilePath('./logs/%DATE%/requests.log', 'daily', day1)).toBe(path.join('logs', '2026-10-19', 'requests.log'));
+      expect(resolveLogFilePath('./logs/requests.log', 'none', day1)).toBe('./logs/requests.log');
+    });
+
+    it('should write each day to its own file', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(day1);
+      const requestLogger = createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+        rotationFrequency: 'daily',
+      });
+      app.use(requestLogger);
+      app.get('/test/:id', (req, res) => res.json({ ok: true }));
+
+      await request(app).get('/test/1').expect(200);
+      await requestLogger.flush();
+
+      nowSpy.mockReturnValue(day2);
+      await request(app).get('/test/2').expect(200);
+      await requestLogger.close();
+
+      const first = await fs.readFile(path.join(testLogDir, 'rotation-test-2026-10-19.log'), 'utf8');
+      const second = await fs.readFile(path.join(testLogDir, 'rotation-test-2026-10-20.log'), 'utf8');
+      expect(JSON.parse(first.trim()).url).toBe('/test/1');
+      expect(JSON.parse(second.trim()).url).toBe('/test/2');
+    });
+
+    it('should append to the current file when restarted mid-day', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(day1);
+      const config = {
+        logFilePath: path.join(testLogDir, '%DATE%-requests.log'),
+        format: 'json' as const,
+        rotationFrequency: 'daily' as const,
+        maxFileSize: 4096,
+      };
+
+      for (const run of [1, 2]) {
+        const requestLogger = createRequestLogger(config);
+        const runApp = express();
+        runApp.use(requestLogger);
+        runApp.get('/run/:id', (req, res) => res.json({ ok: true }));
+
+        await request(runApp).get(`/run/${run}`).expect(200);
+        await requestLogger.close();
+      }
+
+      const content = await fs.readFile(path.join(testLogDir, '2026-10-19-requests.log'), 'utf8');
+      expect(content.trim().split('\n').map(line => JSON.parse(line).url)).toEqual(['/run/1', '/run/2']);
+    });
+
+    it('should apply size rotation within a date-stamped file', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(day1);
+      const requestLogger = createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+        rotationFrequency: 'daily',
+        maxFileSize: 256,
+      });
+      app.use(requestLogger);
+      app.get('/test', (req, res) => res.json({ ok: true }));
+
+      for (let i = 0; i < 10; i++) {
+        await request(app).get('/test').expect(200);
+      }
+      await requestLogger.close();
+
+      const files = await fs.readdir(testLogDir);
+      expect(files).toContain('rotation-test-2026-10-19.log');
+      expect(files).toContain('rotation-test-2026-10-19.1.log.gz');
+    });
+
+    it('should delete files older than retentionDays and leave others alone', async () => {
+      await fs.mkdir(testLogDir, { recursive: true });
+      const existing = [
+        'rotation-test-2026-10-01.log',
+        'rotation-test-2026-10-01.1.log.gz',
+        'rotation-test-2026-10-11.log',
+        'rotation-test-2026-10-12.log',
+        'rotation-test-2026-10-19.log',
+        'rotation-test.log',
+        'unrelated-2026-10-01.log',
+      ];
+      for (const file of existing) {
+        await fs.writeFile(path.join(testLogDir, file), '');
+      }
+
+      const removed = await removeExpiredLogFiles(testLogFile, 'daily', 7, day1);
+
+      expect(removed.map(file => path.basename(file)).sort()).toEqual([
+        'rotation-test-2026-10-01.1.log.gz',
+        'rotation-test-2026-10-01.log',
+        'rotation-test-2026-10-11.log',
+      ]);
+      expect((await fs.readdir(testLogDir)).sort()).toEqual([
+        'rotation-test-2026-10-12.log',
+        'rotation-test-2026-10-19.log',
+        'rotation-test.log',
+        'unrelated-2026-10-01.log',
+      ]);
+    });
+
+    it('should sweep expired files when the logger starts', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(day1);
+      await fs.mkdir(testLogDir, { recursive: true });
+      await fs.writeFile(path.join(testLogDir, 'rotation-test-2026-09-01.log'), '{}\n');
+
+      const requestLogger = createRequestLogger({
+        logFilePath: testLogFile,
+        format: 'json',
+        rotationFrequency: 'daily',
+        retentionDays: 7,
+      });
+      app.use(requestLogger);
+      app.get('/test', (req, res) => res.json({ ok: true }));
+
+      await request(app).get('/test').expect(200);
+      await requestLogger.close();
+
+      expect(await fs.readdir(testLogDir)).toEqual(['rotation-test-2026-10-19.log']);
+    });
+  });
+});
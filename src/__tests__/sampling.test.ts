@@ -0,0 +1,185 @@
+/**
+ * Sampling tests
+ * Tests request ID based sampling, per-route and per-method rates, keep
+ * rules for errors and slow requests, and the recorded sampleRate
+ */
+
+import express, { Express } from 'express';
+import request from 'supertest';
+import { createRequestLogger, isSampled, LogEntry, LoggerConfig, Transport } from '../middleware';
+
+/**
+ * Transport that keeps entries in memory.
+ */
+function memoryTransport(format?: Transport['format']): Transport & { entries: LogEntry[] } {
+  const entries: LogEntry[] = [];
+  return {
+    format,
+    entries,
+    write: (entry) => { entries.push(entry); },
+    flush: async () => undefined,
+    close: async () => undefined,
+  };
+}
+
+describe('Sampling Tests', () => {
+  let app: Express;
+  let transport: ReturnType<typeof memoryTransport>;
+
+  function useLogger(config: LoggerConfig): void {
+    app.use(createRequestLogger({ logOnResponse: true, transports: [transport], ...config }));
+    app.get('/api/books', (req, res) => res.json([]));
+    app.get('/api/books/:id', (req, res) => res.json({ id: req.params.id }));
+    app.post('/api/books', (req, res) => res.status(201).end());
+    app.get('/api/authors', (req, res) => res.json([]));
+    app.get('/api/fail', (req, res) => res.status(503).end());
+    app.get('/api/slow', (req, res) => setTimeout(() => res.json([]), 40));
+  }
+
+  beforeEach(() => {
+    app = express();
+    transport = memoryTransport();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Sampling by Request ID', () => {
+    it('should decide from the SHA-256 digest of the request ID', () => {
+      // The first four bytes of SHA-256('req-1') give 0.579, those of 'req-2' give 0.651
+      expect(isSampled('req-1', 0.6)).toBe(true);
+      expect(isSampled('req-2', 0.6)).toBe(false);
+      expect(isSampled('req-2', 0.66)).toBe(true);
+      expect(isSampled('req-1', 0)).toBe(false);
+      expect(isSampled('req-2', 1)).toBe(true);
+    });
+
+    it('should sample about the configured fraction of requests', () => {
+      const sampled = Array.from({ length: 10000 }, (_, index) => `request-${index}`).filter((id) => isSampled(id, 0.25));
+
+      expect(sampled.length).toBeGreaterThan(2300);
+      expect(sampled.length).toBeLessThan(2700);
+    });
+
+    it('should log the requests whose IDs are sampled, with their sampleRate', async () => {
+      useLogger({ sampleRate: 0.6 });
+
+      for (const id of ['req-1', 'req-2', 'req-3', 'req-4', 'req-5', 'req-6']) {
+        await request(app).get('/api/books').set('X-Request-Id', id).expect(200);
+      }
+
+      expect(transport.entries.map((entry) => [entry.requestId, entry.sampleRate])).toEqual([['req-1', 0.6], ['req-5', 0.6]]);
+    });
+
+    it('should still echo the request ID of requests it does not log', async () => {
+      useLogger({ sampleRate: 0 });
+
+      const response = await request(app).get('/api/books').set('X-Request-Id', 'req-2').expect(200);
+
+      expect(response.headers['x-request-id']).toBe('req-2');
+      expect(transport.entries).toHaveLength(0);
+    });
+
+    it('should not add sampleRate when every request is logged', async () => {
+      useLogger({});
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(transport.entries[0]).not.toHaveProperty('sampleRate');
+    });
+  });
+
+  describe('Rules', () => {
+    it('should apply the first rule matching the method and path', async () => {
+      useLogger({
+        sampleRules: [
+          { method: 'get', path: '/api/books**', rate: 0 },
+          { path: /^\/api\/auth/, rate: 0.5 },
+        ],
+      });
+
+      await request(app).get('/api/books').set('X-Request-Id', 'req-1').expect(200);
+      await request(app).get('/api/books/42?fields=title').set('X-Request-Id', 'req-1').expect(200);
+      await request(app).post('/api/books').set('X-Request-Id', 'req-1').expect(201);
+      await request(app).get('/api/authors').set('X-Request-Id', 'req-5').expect(200);
+      await request(app).get('/api/authors').set('X-Request-Id', 'req-2').expect(200);
+
+      expect(transport.entries.map((entry) => [entry.method, entry.url, entry.sampleRate])).toEqual([
+        ['POST', '/api/books', 1],
+        ['GET', '/api/authors', 0.5],
+      ]);
+    });
+  });
+
+  describe('Keep Rules', () => {
+    it('should log server errors that were not sampled, at a rate of 1', async () => {
+      useLogger({ sampleRate: 0 });
+
+      await request(app).get('/api/books').expect(200);
+      await request(app).get('/api/fail').expect(503);
+
+      expect(transport.entries).toHaveLength(1);
+      expect(transport.entries[0]).toMatchObject({ url: '/api/fail', status: 503, sampleRate: 1 });
+    });
+
+    it('should log slow requests that were not sampled', async () => {
+      useLogger({ sampleRate: 0, alwaysLogStatus: 0, alwaysLogSlowerThanMs: 20 });
+
+      await request(app).get('/api/fail').expect(503);
+      await request(app).get('/api/slow').expect(200);
+
+      expect(transport.entries.map((entry) => [entry.url, entry.sampleRate])).toEqual([['/api/slow', 1]]);
+    });
+
+    it('should record a rate of 1 for sampled requests that would have been kept anyway', async () => {
+      useLogger({ sampleRate: 0.6 });
+
+      await request(app).get('/api/fail').set('X-Request-Id', 'req-1').expect(503);
+      await request(app).get('/api/books').set('X-Request-Id', 'req-1').expect(200);
+
+      expect(transport.entries.map((entry) => entry.sampleRate)).toEqual([1, 0.6]);
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should warn about invalid sampling options', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      useLogger({ sampleRate: 1.5, sampleRules: [{ path: '/api/books', rate: '10%' as any }], alwaysLogStatus: -1 });
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('sampleRate'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('sampleRules'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('alwaysLogStatus'));
+      expect(transport.entries).toHaveLength(1);
+    });
+
+    it('should warn that keep rules require logOnResponse', async () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      useLogger({ logOnResponse: false, sampleRate: 0, alwaysLogStatus: 500 });
+
+      await request(app).get('/api/fail').expect(503);
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('require logOnResponse'));
+      expect(transport.entries).toHaveLength(0);
+    });
+
+    it('should not warn about the default keep rule without logOnResponse', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      useLogger({ logOnResponse: false, sampleRate: 0.5 });
+
+      expect(consoleWarnSpy).not.toHaveBeenCalled();
+    });
+
+    it('should log every request when the sampling options are passed as undefined', async () => {
+      useLogger({ sampleRate: undefined, sampleRules: undefined });
+
+      await request(app).get('/api/books').set('X-Request-Id', 'req-1').expect(200);
+
+      expect(transport.entries).toHaveLength(1);
+      expect(transport.entries[0]).not.toHaveProperty('sampleRate');
+    });
+  });
+});
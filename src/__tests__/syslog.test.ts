@@ -0,0 +1,235 @@
+/**
+ * Syslog transport tests
+ * Tests RFC 5424 / RFC 3164 message formatting and delivery over UDP, TCP and Unix sockets
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { createRequestLogger, LogEntry, SyslogTransport } from '../middleware';
+import { formatSyslogMessage, SyslogMessageOptions } from '../middleware/transports/syslog';
+import * as dgram from 'dgram';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+const messageOptions: SyslogMessageOptions = {
+  rfc: '5424',
+  facility: 'local0',
+  appName: 'books-api',
+  hostname: 'web-1',
+  procId: '4242',
+  msgId: 'access',
+  structuredDataId: 'request@32473',
+};
+
+const entry: LogEntry = {
+  timestamp: '2026-10-19T13:55:36.123Z',
+  method: 'GET',
+  url: '/api/books?title="a]b"',
+  status: 200,
+  durationMs: 1.5,
+};
+
+/**
+ * Waits until a condition holds, polling every few milliseconds.
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+/**
+ * Starts a stream listener that records every byte received across connections.
+ */
+async function startStreamServer(listenOn: number | string): Promise<{
+  server: net.Server;
+  received: () => string;
+  sockets: net.Socket[];
+}> {
+  let data = '';
+  const sockets: net.Socket[] = [];
+  const server = net.createServer(socket => {
+    sockets.push(socket);
+    socket.on('data', chunk => { data += chunk.toString(); });
+  });
+
+  await new Promise<void>(resolve => {
+    if (typeof listenOn === 'string') {
+      server.listen(listenOn, resolve);
+    } else {
+      server.listen(listenOn, '127.0.0.1', resolve);
+    }
+  });
+
+  return { server, received: () => data, sockets };
+}
+
+describe('Syslog Transport Tests', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Message Format', () => {
+    it('should build an RFC 5424 message with structured data', () => {
+      const message = formatSyslogMessage(entry, 'GET /api/books 200\n', messageOptions);
+
+      // local0 (16) * 8 + info (6) = 134
+      expect(message).toBe(
+        '<134>1 2026-10-19T13:55:36.123Z web-1 books-api 4242 access ' +
+        '[request@32473 method="GET" url="/api/books?title=\\"a\\]b\\"" status="200" durationMs="1.5"] ' +
+        'GET /api/books 200'
+      );
+    });
+
+    it('should map status codes to severities', () => {
+      const priority = (status: number, aborted?: boolean): string =>
+        formatSyslogMessage({ ...entry, status, aborted }, '', messageOptions).split('>')[0];
+
+      expect(priority(200)).toBe('<134');
+      expect(priority(404)).toBe('<132');
+      expect(priority(503)).toBe('<131');
+      expect(priority(200, true)).toBe('<131');
+    });
+
+    it('should use NILVALUE for empty header fields', () => {
+      const message = formatSyslogMessage(entry, 'body', { ...messageOptions, hostname: '', msgId: '' });
+
+      expect(message).toMatch(/^<134>1 \S+ - books-api 4242 - \[/);
+    });
+
+    it('should build an RFC 3164 message', () => {
+      const message = formatSyslogMessage(entry, 'body\n', { ...messageOptions, rfc: '3164' });
+
+      expect(message).toMatch(/^<134>Oct [ \d]\d \d{2}:\d{2}:36 web-1 books-api\[4242\]: body$/);
+    });
+  });
+
+  describe('UDP', () => {
+    it('should send one datagram per entry', async () => {
+      const received: string[] = [];
+      const server = dgram.createSocket('udp4');
+      server.on('message', message => received.push(message.toString()));
+      await new Promise<void>(resolve => server.bind(0, '127.0.0.1', resolve));
+
+      const requestLogger = createRequestLogger({
+        format: 'text',
+        logOnResponse: true,
+        transports: [new SyslogTransport({
+          host: '127.0.0.1',
+          port: (server.address() as AddressInfo).port,
+          appName: 'books-api',
+        })],
+      });
+      const app = express();
+      app.use(requestLogger);
+      app.get('/api/books', (req, res) => res.json([]));
+      app.get('/missing', (req, res) => res.status(404).end());
+
+      await request(app).get('/api/books').expect(200);
+      await request(app).get('/missing').expect(404);
+      await requestLogger.close();
+
+      await waitFor(() => received.length === 2);
+      server.close();
+
+      expect(received[0]).toMatch(/^<14>1 \S+ \S+ books-api \d+ access \[request@32473 method="GET" url="\/api\/books" .*\] \[.*\] GET \/api\/books 200 /);
+      expect(received[1]).toMatch(/^<12>1 /);
+    });
+  });
+
+  describe('TCP', () => {
+    it('should frame messages with octet counting', async () => {
+      const { server, received } = await startStreamServer(0);
+      const transport = new SyslogTransport({
+        protocol: 'tcp',
+        host: '127.0.0.1',
+        port: (server.address() as AddressInfo).port,
+      });
+
+      transport.write(entry, 'first\n');
+      transport.write(entry, 'second é\n');
+      await transport.close();
+
+      await waitFor(() => received().includes('second'));
+      server.close();
+
+      // Each frame is "<byte length> <message>"
+      const frames: string[] = [];
+      let rest = Buffer.from(received());
+      while (rest.length > 0) {
+        const space = rest.indexOf(' ');
+        const length = Number(rest.subarray(0, space).toString());
+        frames.push(rest.subarray(space + 1, space + 1 + length).toString());
+        rest = rest.subarray(space + 1 + length);
+      }
+      expect(frames).toHaveLength(2);
+      expect(frames[0]).toMatch(/ first$/);
+      expect(frames[1]).toMatch(/ second é$/);
+    });
+
+    it('should queue entries and reconnect after the connection drops', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const { server, received, sockets } = await startStreamServer(0);
+      const transport = new SyslogTransport({
+        protocol: 'tcp',
+        host: '127.0.0.1',
+        port: (server.address() as AddressInfo).port,
+        reconnectInterval: 20,
+      });
+
+      transport.write(entry, 'before\n');
+      await waitFor(() => received().includes('before'));
+
+      // The collector drops the connection
+      sockets[0].destroy();
+      await waitFor(() => sockets[0].destroyed);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      transport.write(entry, 'after\n');
+      await waitFor(() => received().includes('after'));
+      await transport.close();
+      server.close();
+
+      expect(sockets).toHaveLength(2);
+      expect(consoleErrorSpy).not.toHaveBeenCalledWith(expect.stringContaining('dropped'));
+    });
+
+    it('should report entries it could not deliver', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      // Find a port with nothing listening on it
+      const { server } = await startStreamServer(0);
+      const port = (server.address() as AddressInfo).port;
+      await new Promise(resolve => server.close(resolve));
+
+      const transport = new SyslogTransport({ protocol: 'tcp', host: '127.0.0.1', port, reconnectInterval: 10000 });
+      transport.write(entry, 'lost\n');
+      await transport.close();
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('ECONNREFUSED'));
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('dropped 1 entry'));
+    });
+  });
+
+  describe('Unix Socket', () => {
+    it('should write newline-framed messages to a local socket', async () => {
+      const socketPath = path.join(os.tmpdir(), `request-logger-${process.pid}.sock`);
+      const { server, received } = await startStreamServer(socketPath);
+      const transport = new SyslogTransport({ protocol: 'unix', path: socketPath, rfc: '3164', appName: 'books-api' });
+
+      transport.write(entry, 'hello\n');
+      await transport.close();
+
+      await waitFor(() => received().endsWith('\n'));
+      await new Promise(resolve => server.close(resolve));
+
+      expect(received()).toMatch(/^<14>\w{3} [ \d]\d \d{2}:\d{2}:\d{2} \S+ books-api\[\d+\]: hello\n$/);
+    });
+  });
+});
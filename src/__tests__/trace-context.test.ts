@@ -0,0 +1,174 @@
+/**
+ * Trace Context tests
+ * Tests traceparent/tracestate parsing, trace fields in entries and new traces
+ */
+
+import express, { Express } from 'express';
+import request from 'supertest';
+import { createRequestLogger, getRequestContext, LogEntry, LoggerConfig, Transport } from '../middleware';
+import { parseTraceparent, parseTracestate } from '../middleware/trace-context';
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+/**
+ * Transport that keeps entries and formatted lines in memory.
+ */
+function memoryTransport(format?: Transport['format']): Transport & { entries: LogEntry[]; lines: string[] } {
+  const entries: LogEntry[] = [];
+  const lines: string[] = [];
+  return {
+    format,
+    entries,
+    lines,
+    write: (entry, formatted) => {
+      entries.push(entry);
+      lines.push(formatted);
+    },
+    flush: async () => undefined,
+    close: async () => undefined,
+  };
+}
+
+describe('Trace Context Tests', () => {
+  describe('traceparent Parsing', () => {
+    it('should parse a valid traceparent', () => {
+      expect(parseTraceparent(TRACEPARENT)).toEqual({
+        version: '00',
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        parentId: '00f067aa0ba902b7',
+        traceFlags: '01',
+      });
+    });
+
+    it.each([
+      ['uppercase hex', '00-4BF92F3577B34DA6A3CE929D0E0E4736-00F067AA0BA902B7-01'],
+      ['an all-zero trace ID', '00-00000000000000000000000000000000-00f067aa0ba902b7-01'],
+      ['an all-zero parent ID', '00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01'],
+      ['the forbidden version ff', 'ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'],
+      ['extra fields in version 00', `${TRACEPARENT}-extra`],
+      ['a short trace ID', '00-4bf92f3577b34da6a3ce929d0e0e473-00f067aa0ba902b7-01'],
+      ['repeated headers', `${TRACEPARENT}, ${TRACEPARENT}`],
+      ['garbage', 'not-a-traceparent'],
+    ])('should reject %s', (description, header) => {
+      expect(parseTraceparent(header)).toBeUndefined();
+    });
+
+    it('should accept later versions with extra fields', () => {
+      expect(parseTraceparent('cc-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01-what-the-future-holds')).toMatchObject({
+        version: 'cc',
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      });
+      expect(parseTraceparent('cc-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01x')).toBeUndefined();
+    });
+  });
+
+  describe('tracestate Parsing', () => {
+    it('should normalize whitespace, empty members and repeated headers', () => {
+      expect(parseTracestate(' congo=t61rcWkgMzE ,, rojo=00f067aa0ba902b7 ')).toBe('congo=t61rcWkgMzE,rojo=00f067aa0ba902b7');
+      expect(parseTracestate(['congo=t61rcWkgMzE', 'tenant@vendor=x'])).toBe('congo=t61rcWkgMzE,tenant@vendor=x');
+    });
+
+    it('should discard the whole header if any member is malformed', () => {
+      expect(parseTracestate('congo=t61rcWkgMzE,Rojo=1')).toBeUndefined();
+      expect(parseTracestate('congo=t61rcWkgMzE,rojo')).toBeUndefined();
+      expect(parseTracestate('congo=a,congo=b')).toBeUndefined();
+      expect(parseTracestate(Array.from({ length: 33 }, (_, i) => `k${i}=v`).join(','))).toBeUndefined();
+    });
+  });
+
+  describe('Middleware', () => {
+    let app: Express;
+    let transport: ReturnType<typeof memoryTransport>;
+
+    function useLogger(config: LoggerConfig = {}): void {
+      app.use(createRequestLogger({ transports: [transport], ...config }));
+      app.get('/api/books', (req, res) => res.json({ trace: getRequestContext()?.trace ?? null }));
+    }
+
+    beforeEach(() => {
+      app = express();
+      transport = memoryTransport();
+    });
+
+    it('should ignore trace headers unless includeTraceContext is enabled', async () => {
+      useLogger();
+
+      await request(app).get('/api/books').set('traceparent', TRACEPARENT).expect(200);
+
+      expect(transport.entries[0].traceId).toBeUndefined();
+    });
+
+    it('should continue an incoming trace', async () => {
+      useLogger({ includeTraceContext: true, startTrace: true });
+
+      const response = await request(app)
+        .get('/api/books')
+        .set('traceparent', TRACEPARENT)
+        .set('tracestate', 'congo=t61rcWkgMzE')
+        .expect(200);
+
+      const { trace } = response.body;
+      expect(trace).toEqual({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+        parentSpanId: '00f067aa0ba902b7',
+        traceFlags: '01',
+        traceparent: `00-4bf92f3577b34da6a3ce929d0e0e4736-${trace.spanId}-01`,
+        tracestate: 'congo=t61rcWkgMzE',
+      });
+      expect(trace.spanId).not.toBe('00f067aa0ba902b7');
+      expect(transport.entries[0]).toMatchObject({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: trace.spanId,
+        parentSpanId: '00f067aa0ba902b7',
+        traceFlags: '01',
+      });
+    });
+
+    it('should ignore tracestate without a valid traceparent', async () => {
+      useLogger({ includeTraceContext: true });
+
+      const response = await request(app).get('/api/books').set('tracestate', 'congo=t61rcWkgMzE').expect(200);
+
+      expect(response.body.trace).toBeNull();
+      expect(transport.entries[0].traceId).toBeUndefined();
+    });
+
+    it('should start a new trace when none (or a malformed one) arrives', async () => {
+      useLogger({ includeTraceContext: true, startTrace: true });
+
+      const response = await request(app).get('/api/books').set('traceparent', '00-zz-00f067aa0ba902b7-01').expect(200);
+
+      const { trace } = response.body;
+      expect(trace.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(trace.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(trace.traceFlags).toBe('01');
+      expect(parseTraceparent(trace.traceparent)).toEqual({ version: '00', traceId: trace.traceId, parentId: trace.spanId, traceFlags: '01' });
+      expect(transport.entries[0].traceId).toBe(trace.traceId);
+      expect(transport.entries[0]).not.toHaveProperty('parentSpanId');
+    });
+  });
+
+  describe('Formats', () => {
+    it('should use trace_id, span_id, parent_span_id and trace_flags in JSON and trace.id, span.id and parent.id in ECS', async () => {
+      const json = memoryTransport('json');
+      const ecs = memoryTransport('ecs');
+      const app = express();
+      app.use(createRequestLogger({ includeTraceContext: true, transports: [json, ecs] }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').set('traceparent', TRACEPARENT).expect(200);
+
+      const { spanId } = json.entries[0];
+      const line = JSON.parse(json.lines[0]);
+      expect(line).toMatchObject({ trace_id: '4bf92f3577b34da6a3ce929d0e0e4736', span_id: spanId, parent_span_id: '00f067aa0ba902b7', trace_flags: '01' });
+      expect(line.traceId).toBeUndefined();
+      expect(Object.keys(line).slice(0, 5)).toEqual(['timestamp', 'level', 'method', 'url', 'requestId']);
+
+      const document = JSON.parse(ecs.lines[0]);
+      expect(document.trace).toEqual({ id: '4bf92f3577b34da6a3ce929d0e0e4736' });
+      expect(document.span).toEqual({ id: spanId });
+      expect(document.parent).toEqual({ id: '00f067aa0ba902b7' });
+    });
+  });
+});
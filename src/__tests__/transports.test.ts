@@ -0,0 +1,249 @@
+/**
+ * Transport tests
+ * Tests the Transport interface, built-in transports and multiple simultaneous sinks
+ */
+
+import express, { Express } from 'express';
+import request from 'supertest';
+import {
+  createRequestLogger,
+  ConsoleTransport,
+  FileTransport,
+  LogEntry,
+  StreamTransport,
+  Transport,
+} from '../middleware';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+
+/**
+ * Collects everything written to a PassThrough stream.
+ */
+function captureStream(): { stream: PassThrough; output: () => string } {
+  const stream = new PassThrough();
+  const chunks: string[] = [];
+  stream.on('data', chunk => chunks.push(chunk.toString()));
+  return { stream, output: () => chunks.join('') };
+}
+
+/**
+ * Minimal custom transport that keeps entries in memory.
+ */
+class MemoryTransport implements Transport {
+  readonly entries: LogEntry[] = [];
+  readonly lines: string[] = [];
+  flushed = 0;
+  closed = 0;
+
+  constructor(readonly format?: 'json' | 'text') {}
+
+  write(entry: LogEntry, formatted: string): void {
+    this.entries.push(entry);
+    this.lines.push(formatted);
+  }
+
+  async flush(): Promise<void> {
+    this.flushed++;
+  }
+
+  async close(): Promise<void> {
+    this.closed++;
+  }
+}
+
+describe('Transport Tests', () => {
+  let app: Express;
+  const testLogDir = './test-logs';
+  const testLogFile = path.join(testLogDir, 'transport-test.log');
+
+  beforeEach(async () => {
+    try {
+      await fs.rm(testLogDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore if directory doesn't exist
+    }
+
+    app = express();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+
+    try {
+      await fs.rm(testLogDir, { recursive: true, force: true });
+    } catch (error) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('Custom Transports', () => {
+    it('should pass the entry and its formatted line to a custom transport', async () => {
+      const memory = new MemoryTransport();
+      app.use(createRequestLogger({ format: 'json', transports: [memory] }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(memory.entries).toHaveLength(1);
+      expect(memory.entries[0].url).toBe('/api/books');
+      expect(JSON.parse(memory.lines[0])).toEqual(memory.entries[0]);
+      expect(memory.lines[0]).toMatch(/\n$/);
+    });
+
+    it('should not create the default log file when transports are given', async () => {
+      const memory = new MemoryTransport();
+      const requestLogger = createRequestLogger({ logFilePath: testLogFile, transports: [memory] });
+      app.use(requestLogger);
+      app.get('/test', (req, res) => res.json({ ok: true }));
+
+      await request(app).get('/test').expect(200);
+      await requestLogger.close();
+
+      const fileExists = await fs.access(testLogFile).then(() => true).catch(() => false);
+      expect(fileExists).toBe(false);
+    });
+
+    it('should flush and close every transport', async () => {
+      const first = new MemoryTransport();
+      const second = new MemoryTransport();
+      const requestLogger = createRequestLogger({ transports: [first, second] });
+
+      await requestLogger.flush();
+      await requestLogger.close();
+
+      expect([first.flushed, second.flushed]).toEqual([1, 1]);
+      expect([first.closed, second.closed]).toEqual([1, 1]);
+    });
+
+    it('should keep logging to other transports when one throws', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const broken: Transport = {
+        write: () => { throw new Error('Transport exploded'); },
+        flush: async () => undefined,
+        close: async () => undefined,
+      };
+      const memory = new MemoryTransport();
+
+      app.use(createRequestLogger({ transports: [broken, memory] }));
+      app.get('/test', (req, res) => res.json({ ok: true }));
+
+      await request(app).get('/test').expect(200);
+
+      expect(memory.entries).toHaveLength(1);
+      expect(consoleErrorSpy.mock.calls[0][0]).toContain('Transport exploded');
+    });
+
+    it('should ignore invalid transports with a warning', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      const middleware = createRequestLogger({ transports: [{ write: () => undefined } as any] });
+
+      expect(middleware).toBeDefined();
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid transports'));
+    });
+  });
+
+  describe('Multiple Sinks With Their Own Formats', () => {
+    it('should write JSON to disk and text to a stream for the same request', async () => {
+      const { stream, output } = captureStream();
+      const requestLogger = createRequestLogger({
+        logOnResponse: true,
+        transports: [
+          new FileTransport({ logFilePath: testLogFile, format: 'json' }),
+          new StreamTransport({ stream, format: 'text' }),
+        ],
+      });
+      app.use(requestLogger);
+      app.post('/api/books', (req, res) => res.status(201).json({ id: 1 }));
+
+      await request(app).post('/api/books').expect(201);
+      await requestLogger.close();
+
+      const fileEntry = JSON.parse((await fs.readFile(testLogFile, 'utf8')).trim());
+      expect(fileEntry.method).toBe('POST');
+      expect(fileEntry.status).toBe(201);
+
+      expect(output()).toMatch(/^\[.*\] POST \/api\/books 201 /);
+    });
+
+    it('should fall back to the logger format for transports without one', async () => {
+      const memory = new MemoryTransport();
+      app.use(createRequestLogger({ format: 'text', transports: [memory] }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(memory.lines[0]).toMatch(/^\[.*\] GET \/api\/books\n$/);
+    });
+  });
+
+  describe('StreamTransport', () => {
+    it('should end the stream on close only when asked to', async () => {
+      const kept = new PassThrough();
+      const ended = new PassThrough();
+
+      await new StreamTransport({ stream: kept }).close();
+      await new StreamTransport({ stream: ended, end: true }).close();
+
+      expect(kept.writableEnded).toBe(false);
+      expect(ended.writableEnded).toBe(true);
+    });
+
+    it('should report stream errors without throwing', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const { stream } = captureStream();
+      const transport = new StreamTransport({ stream });
+
+      stream.destroy(Object.assign(new Error('Broken pipe'), { code: 'EPIPE' }));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(() => transport.write({ timestamp: '', method: 'GET', url: '/' }, 'line\n')).not.toThrow();
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('EPIPE'));
+    });
+
+    it('should share one error listener per stream and remove it when the last transport closes', async () => {
+      const stream = new PassThrough();
+      const transports = Array.from({ length: 20 }, () => new StreamTransport({ stream }));
+
+      expect(stream.listenerCount('error')).toBe(1);
+
+      await transports[0].close();
+      await transports[0].close();
+      expect(stream.listenerCount('error')).toBe(1);
+
+      await Promise.all(transports.map((transport) => transport.close()));
+      expect(stream.listenerCount('error')).toBe(0);
+    });
+  });
+
+  describe('ConsoleTransport', () => {
+    it('should write to stderr when configured', async () => {
+      const stderrSpy = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      const stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      app.use(createRequestLogger({
+        transports: [new ConsoleTransport({ stream: 'stderr', format: 'text', colorize: false })],
+      }));
+      app.get('/api/books', (req, res) => res.json([]));
+
+      await request(app).get('/api/books').expect(200);
+
+      expect(stderrSpy).toHaveBeenCalledWith(expect.stringMatching(/GET \/api\/books\n$/));
+      expect(stdoutSpy).not.toHaveBeenCalledWith(expect.stringContaining('/api/books'));
+    });
+
+    it('should color error responses when colorize is enabled', () => {
+      const stdoutSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+      const transport = new ConsoleTransport({ colorize: true });
+
+      transport.write({ timestamp: '', method: 'GET', url: '/ok', status: 200 }, 'ok line\n');
+      transport.write({ timestamp: '', method: 'GET', url: '/missing', status: 404 }, 'missing line\n');
+      transport.write({ timestamp: '', method: 'GET', url: '/fail', status: 500 }, 'fail line\n');
+
+      expect(stdoutSpy).toHaveBeenNthCalledWith(1, 'ok line\n');
+      expect(stdoutSpy).toHaveBeenNthCalledWith(2, '\x1b[33mmissing line\x1b[0m\n');
+      expect(stdoutSpy).toHaveBeenNthCalledWith(3, '\x1b[31mfail line\x1b[0m\n');
+    });
+  });
+});
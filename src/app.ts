@@ -23,17 +23,25 @@ app.use(express.json());
  * This ensures all incoming requests are logged before processing
  * 
  * Configuration options:
- * - format: 'json' for structured logging (default)
- * - logFilePath: Path to the log file
- * - includeIp: Include client IP addresses in logs
+ * - fromEnv: Read LOG_FILE_PATH, LOG_FORMAT, LOG_INCLUDE_IP, LOG_ENABLED and
+ *   the other LOG_* variables (see render.yaml); options set here take
+ *   precedence over them
+ * - includeUserAgent: Leave out User-Agent headers
+ * - logOnResponse: Write each entry once the response is sent, so it records
+ *   the status code, duration and response size
+ * - captureBody: Record the JSON bodies POSTed and PUT to /api/books, with
+ *   passwords and similar fields redacted
+ * - exclude: Leave out the load balancer's health checks
  */
-app.use(createRequestLogger({
-  format: 'json',
-  logFilePath: './logs/requests.log',
-  includeIp: true,
+export const requestLogger = createRequestLogger({
+  fromEnv: true,
   includeUserAgent: false,
-  enabled: true
-}));
+  logOnResponse: true,
+  captureBody: true,
+  exclude: ['/health']
+});
+
+app.use(requestLogger);
 
 // ============================================================================
 // ROUTE HANDLERS
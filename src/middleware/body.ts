@@ -0,0 +1,300 @@
+/**
+ * Request Body Capture
+ *
+ * Records request bodies for log entries: only allowlisted content types,
+ * with sensitive fields redacted and the result capped in size. Bodies are
+ * captured from the raw stream when the logger runs before the body
+ * parser, and taken from req.body when it runs after.
+ *
+ * @module middleware/body
+ */
+
+import { Request } from 'express';
+import { REDACTED } from './headers';
+
+/** Marker appended to bodies cut at maxBodyBytes */
+export const TRUNCATED = '...[TRUNCATED]';
+
+/**
+ * Options for startBodyCapture, with content types and field paths already lowercased.
+ */
+export interface BodyCaptureOptions {
+  /** Largest body logged, in bytes; longer bodies are cut and marked */
+  maxBodyBytes: number;
+
+  /** Content types whose bodies are captured, e.g. 'application/json' or 'text/*' */
+  bodyContentTypes: readonly string[];
+
+  /** Field paths redacted in JSON and form bodies, e.g. 'password', '*.creditcard', 'user.ssn' */
+  redactBodyFields: readonly string[];
+}
+
+/**
+ * A body being captured for one request.
+ */
+export interface BodyCapture {
+  /**
+   * Calls back once the request stream has ended or closed, right away if
+   * it already has. Bodies nobody reads are drained by Node.js once the
+   * response completes.
+   */
+  onEnd(callback: () => void): void;
+
+  /**
+   * Returns the body to log (redacted and capped), or undefined if there is none.
+   */
+  value(): unknown;
+}
+
+/** How a body is decoded and redacted */
+export type BodyKind = 'json' | 'form' | 'text';
+
+/**
+ * Starts capturing a request body.
+ *
+ * If the request stream has not been read yet, its chunks are recorded as
+ * they are emitted, up to maxBodyBytes, without consuming the stream; the
+ * body parser (or route handler) reads it as usual. If it has already been
+ * read, the parsed req.body is used.
+ *
+ * @param req - The incoming request
+ * @param options - Size cap, content types and redacted fields
+ * @returns The capture, or undefined if the content type is not captured
+ *
+ * @example
+ * const capture = startBodyCapture(req, { maxBodyBytes: 4096, bodyContentTypes: ['application/json'], redactBodyFields: ['password'] });
+ * capture?.onEnd(() => console.log(capture.value()));
+ * // { username: 'jane', password: '[REDACTED]' }
+ */
+export function startBodyCapture(req: Request, options: BodyCaptureOptions): BodyCapture | undefined {
+  const kind = bodyKind(req.headers?.['content-type'], options.bodyContentTypes);
+  if (!kind || typeof req.emit !== 'function') {
+    return undefined;
+  }
+
+  // Mounted after the body parser: the stream is gone, the parsed body is not
+  if (req.readableEnded) {
+    return {
+      onEnd: (callback) => callback(),
+      value: () => (req.body === undefined ? undefined : capBody(parsedBody(req.body), options)),
+    };
+  }
+
+  const chunks: Buffer[] = [];
+  const callbacks: Array<() => void> = [];
+  let retained = 0;
+  let received = 0;
+  let ended = false;
+  let settled = false;
+
+  // Observe the stream's events without adding listeners, which would
+  // start the data flowing before the body parser is ready for it
+  const originalEmit = req.emit;
+  req.emit = function (this: Request, event: string | symbol, ...args: unknown[]): boolean {
+    if (event === 'data') {
+      const chunk = args[0];
+      const bytes = typeof chunk === 'string' ? Buffer.from(chunk, req.readableEncoding ?? 'utf8') : (chunk as Buffer);
+      received += bytes.length;
+      if (retained < options.maxBodyBytes) {
+        const kept = bytes.subarray(0, options.maxBodyBytes - retained);
+        chunks.push(kept);
+        retained += kept.length;
+      }
+    }
+
+    const result = (originalEmit as (...emitArgs: unknown[]) => boolean).call(this, event, ...args);
+
+    if (event === 'end') {
+      ended = true;
+    }
+    if ((event === 'end' || event === 'close') && !settled) {
+      settled = true;
+      callbacks.splice(0).forEach((callback) => callback());
+    }
+    return result;
+  } as Request['emit'];
+
+  return {
+    onEnd: (callback) => {
+      if (settled) {
+        callback();
+      } else {
+        callbacks.push(callback);
+      }
+    },
+    value: () => {
+      if (received === 0) {
+        return undefined;
+      }
+
+      // A parser that read the whole body can stand in for a cut-off copy
+      const complete = ended && received <= options.maxBodyBytes;
+      return loggedBody(Buffer.concat(chunks).toString('utf8'), kind, complete, options, req.body);
+    },
+  };
+}
+
+/**
+ * Turns raw body text into the value logged for it.
+ *
+ * Text bodies are logged as strings. JSON and form bodies are decoded and
+ * redacted, which needs the whole body: when the text was cut off, the
+ * parsed body is used instead if there is one. Bodies that cannot be
+ * decoded may hide sensitive fields anywhere, so they are logged as
+ * [REDACTED] unless no fields are redacted. Results longer than
+ * maxBodyBytes are truncated.
+ *
+ * @param text - Body text, at most maxBodyBytes of it
+ * @param kind - How the body is decoded
+ * @param complete - False if the text is only the start of the body
+ * @param options - Size cap and redacted fields
+ * @param parsed - The body as decoded by a parser, if any
+ * @returns The body to log
+ */
+export function loggedBody(
+  text: string,
+  kind: BodyKind,
+  complete: boolean,
+  options: Pick<BodyCaptureOptions, 'maxBodyBytes' | 'redactBodyFields'>,
+  parsed?: unknown
+): unknown {
+  if (kind === 'text') {
+    return complete ? capBody(text, options) : truncate(text, options.maxBodyBytes);
+  }
+
+  const decoded = complete ? decodeBody(text, kind) : undefined;
+  if (decoded !== undefined) {
+    return capBody(decoded, options);
+  }
+  if (parsed !== undefined && !complete) {
+    return capBody(parsedBody(parsed), options);
+  }
+
+  return options.redactBodyFields.length > 0 ? REDACTED : truncate(text, options.maxBodyBytes);
+}
+
+/**
+ * Redacts fields of a JSON value.
+ *
+ * A path without dots ('password') matches that field at any depth. A
+ * dotted path ('user.ssn') matches from the top of the body, with '*'
+ * standing for any single field name ('*.creditcard'). Array elements are
+ * matched like the array itself, and names are compared case-insensitively.
+ *
+ * @param value - Parsed body
+ * @param paths - Lowercased field paths
+ * @returns A copy of the value with matching fields replaced by [REDACTED]
+ *
+ * @example
+ * redactBodyFields({ user: { name: 'Jane', ssn: '078-05-1120' }, password: 'x' }, ['password', 'user.ssn']);
+ * // { user: { name: 'Jane', ssn: '[REDACTED]' }, password: '[REDACTED]' }
+ */
+export function redactBodyFields(value: unknown, paths: readonly string[]): unknown {
+  if (paths.length === 0) {
+    return value;
+  }
+  return redactAt(value, [], paths.map((path) => path.split('.')));
+}
+
+/**
+ * Redacts the fields of a value found at the given path.
+ */
+function redactAt(value: unknown, path: string[], rules: string[][]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((element) => redactAt(element, path, rules));
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    const fieldPath = [...path, key.toLowerCase()];
+    redacted[key] = rules.some((rule) => matchesPath(rule, fieldPath)) ? REDACTED : redactAt(field, fieldPath, rules);
+  }
+  return redacted;
+}
+
+/**
+ * Checks a field path against a redaction rule.
+ */
+function matchesPath(rule: string[], path: string[]): boolean {
+  if (rule.length === 1) {
+    return rule[0] === '*' || rule[0] === path[path.length - 1];
+  }
+  return rule.length === path.length && rule.every((segment, index) => segment === '*' || segment === path[index]);
+}
+
+/**
+ * Redacts a body, then cuts it to maxBodyBytes when its logged form is longer.
+ * Long JSON and form bodies become their truncated JSON text.
+ */
+function capBody(body: unknown, options: Pick<BodyCaptureOptions, 'maxBodyBytes' | 'redactBodyFields'>): unknown {
+  const redacted = redactBodyFields(body, options.redactBodyFields);
+  const serialized = typeof redacted === 'string' ? redacted : JSON.stringify(redacted);
+
+  return Buffer.byteLength(serialized) > options.maxBodyBytes ? truncate(serialized, options.maxBodyBytes) : redacted;
+}
+
+/**
+ * Cuts text to at most maxBytes bytes of UTF-8 (never mid-character) and appends the truncation marker.
+ */
+function truncate(text: string, maxBytes: number): string {
+  return Buffer.from(text).subarray(0, maxBytes).toString('utf8').replace(/\uFFFD+$/, '') + TRUNCATED;
+}
+
+/**
+ * Decodes a complete raw body, returning undefined if it is malformed.
+ * Repeated form fields become arrays.
+ */
+function decodeBody(text: string, kind: 'json' | 'form'): unknown {
+  if (kind === 'json') {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  const fields: Record<string, string | string[]> = {};
+  for (const [name, value] of new URLSearchParams(text)) {
+    const existing = fields[name];
+    fields[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+  }
+  return fields;
+}
+
+/**
+ * Normalizes a body set by a parser: raw Buffers become text.
+ */
+function parsedBody(body: unknown): unknown {
+  return Buffer.isBuffer(body) ? body.toString('utf8') : body;
+}
+
+/**
+ * Classifies a content type, or returns undefined if its bodies are not
+ * captured. '*' in an allowed type matches any characters except '/'
+ * ('text/*', 'application/*+json').
+ *
+ * @param contentType - Content-Type header value
+ * @param allowed - Lowercased content types whose bodies are captured
+ * @returns How bodies of this type are decoded, or undefined
+ *
+ * @example
+ * bodyKind('application/json; charset=utf-8', ['application/json', 'text/*']); // 'json'
+ * bodyKind('image/png', ['application/json', 'text/*']);                        // undefined
+ */
+export function bodyKind(contentType: string | undefined, allowed: readonly string[]): BodyKind | undefined {
+  const type = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  const isAllowed = type !== '' && allowed.some((pattern) =>
+    new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')}$`).test(type)
+  );
+
+  if (!isAllowed) {
+    return undefined;
+  }
+  if (type === 'application/json' || type.endsWith('+json')) {
+    return 'json';
+  }
+  return type === 'application/x-www-form-urlencoded' ? 'form' : 'text';
+}
@@ -1,3 +1,4 @@
+import { defaultLevelFor } from './levels';
 import { LoggerConfig } from './types';
 
 /**
@@ -11,7 +12,7 @@ import { LoggerConfig } from './types';
  * import { createRequestLogger, DEFAULT_CONFIG } from './middleware';
  * 
  * console.log(DEFAULT_CONFIG);
- * // Output: { logFilePath: './logs/requests.log', format: 'json', enabled: true, includeIp: false, includeUserAgent: false }
+ * // Output: { logFilePath: './logs/requests.log', format: 'json', w3cFields: [...], enabled: true, fromEnv: false, strict: false, includeIp: false, trustedProxies: 'express', ipMode: 'full', ipHashSecret: '', ipHashRotationDays: 1, includeUserAgent: false, includeReferer: false, redactQueryParams: [...], redactPathPatterns: ['email', 'jwt', 'card', 'secret'], includeHeaders: [], redactHeaders: [...], headerRedaction: 'full', captureBody: false, maxBodyBytes: 4096, bodyContentTypes: [...], redactBodyFields: [...], requestIdHeader: 'X-Request-Id', requestIdPattern: /^[\w.:@-]{1,128}$/, requestIdGenerator: 'uuid', includeTraceContext: false, startTrace: false, logOnResponse: false, captureResponseBody: false, maxResponseBodyBytes: 4096, captureResponseBodyWhen: (status) => status >= 400, levelFor: defaultLevelFor, minLevel: 'debug', include: [], exclude: [], skip: () => false, sampleRate: 1, sampleRules: [], alwaysLogStatus: 500, alwaysLogSlowerThanMs: 0, flushInterval: 50, maxBufferSize: 65536, maxFileSize: 0, maxFiles: 5, rotationFrequency: 'none', retentionDays: 0, transports: [] }
  */
 export const DEFAULT_CONFIG: Required<LoggerConfig> = {
   /**
@@ -24,33 +25,330 @@ export const DEFAULT_CONFIG: Required<LoggerConfig> = {
    */
   format: 'json',
   
+  /**
+   * Columns written by the 'w3c' format
+   */
+  w3cFields: ['date', 'time', 'c-ip', 'cs-method', 'cs-uri-stem', 'cs-uri-query', 'sc-status', 'sc-bytes', 'time-taken', 'cs(User-Agent)'],
+
   /**
    * Logging is enabled by default
    */
   enabled: true,
+
+  /**
+   * Environment variables are not read
+   */
+  fromEnv: false,
+
+  /**
+   * Configuration problems are warnings
+   */
+  strict: false,
   
   /**
    * IP address logging is disabled by default (privacy consideration)
    */
   includeIp: false,
+
+  /**
+   * Proxies are trusted according to Express's 'trust proxy' setting
+   */
+  trustedProxies: 'express',
+
+  /**
+   * IP addresses are logged as received
+   */
+  ipMode: 'full',
+
+  /**
+   * IP hashing keys are random and held only in memory
+   */
+  ipHashSecret: '',
+
+  /**
+   * IP hashing keys are replaced daily
+   */
+  ipHashRotationDays: 1,
   
   /**
    * User-Agent logging is disabled by default
    */
   includeUserAgent: false,
+
+  /**
+   * Referer logging is disabled by default
+   */
+  includeReferer: false,
+
+  /**
+   * Common credential parameters are redacted from logged URLs
+   */
+  redactQueryParams: ['password', 'passwd', 'pwd', 'secret', 'client_secret', 'token', 'access_token', 'refresh_token', 'id_token', 'api_key', 'apikey'],
+
+  /**
+   * Every built-in detector runs on logged URLs
+   */
+  redactPathPatterns: ['email', 'jwt', 'card', 'secret'],
+
+  /**
+   * No request headers are captured by default
+   */
+  includeHeaders: [],
+
+  /**
+   * Credentials are redacted when their headers are captured
+   */
+  redactHeaders: ['authorization', 'cookie', 'set-cookie', 'x-api-key', 'proxy-authorization'],
+
+  /**
+   * Redacted values are replaced entirely by default
+   */
+  headerRedaction: 'full',
+
+  /**
+   * Request bodies are not captured by default
+   */
+  captureBody: false,
+
+  /**
+   * Captured bodies are cut at 4 KiB
+   */
+  maxBodyBytes: 4 * 1024,
+
+  /**
+   * JSON, form and text bodies are captured
+   */
+  bodyContentTypes: ['application/json', 'application/*+json', 'application/x-www-form-urlencoded', 'text/*'],
+
+  /**
+   * Credentials and card numbers are redacted from captured bodies
+   */
+  redactBodyFields: [
+    'password', 'passwd', 'pwd', 'secret', 'client_secret', 'token', 'access_token', 'refresh_token', 'id_token', 'api_key', 'apikey',
+    'creditCard', 'cardNumber', 'cvv', 'ssn',
+  ],
+
+  /**
+   * Request IDs travel in the conventional X-Request-Id header
+   */
+  requestIdHeader: 'X-Request-Id',
+
+  /**
+   * Incoming request IDs may use letters, digits and . : @ _ - (up to 128 characters)
+   */
+  requestIdPattern: /^[\w.:@-]{1,128}$/,
+
+  /**
+   * New request IDs are random UUIDs
+   */
+  requestIdGenerator: 'uuid',
+
+  /**
+   * Trace Context headers are ignored by default
+   */
+  includeTraceContext: false,
+
+  /**
+   * New traces are not started by default
+   */
+  startTrace: false,
+
+  /**
+   * Entries are written when the request arrives by default
+   */
+  logOnResponse: false,
+
+  /**
+   * Response bodies are not captured by default
+   */
+  captureResponseBody: false,
+
+  /**
+   * Captured response bodies are cut at 4 KiB
+   */
+  maxResponseBodyBytes: 4 * 1024,
+
+  /**
+   * Bodies of error responses (4xx and 5xx) are captured
+   */
+  captureResponseBodyWhen: (status) => status >= 400,
+
+  /**
+   * Errors for 5xx and aborted requests, warnings for 4xx, info otherwise
+   */
+  levelFor: defaultLevelFor,
+
+  /**
+   * Entries of every level are written
+   */
+  minLevel: 'debug',
+
+  /**
+   * Every request is included
+   */
+  include: [],
+
+  /**
+   * No request is excluded
+   */
+  exclude: [],
+
+  /**
+   * No request is skipped
+   */
+  skip: () => false,
+
+  /**
+   * Every request is logged
+   */
+  sampleRate: 1,
+
+  /**
+   * No per-route or per-method sampling rates
+   */
+  sampleRules: [],
+
+  /**
+   * Server errors (5xx) are logged even when not sampled
+   */
+  alwaysLogStatus: 500,
+
+  /**
+   * Slow requests are only logged when sampled
+   */
+  alwaysLogSlowerThanMs: 0,
+
+  /**
+   * Buffered entries are flushed at least every 50ms
+   */
+  flushInterval: 50,
+
+  /**
+   * Flush immediately once 64 KiB of entries are buffered
+   */
+  maxBufferSize: 64 * 1024,
+
+  /**
+   * Size-based rotation is disabled by default
+   */
+  maxFileSize: 0,
+
+  /**
+   * Keep five compressed archives when rotation is enabled
+   */
+  maxFiles: 5,
+
+  /**
+   * Time-based rotation is disabled by default
+   */
+  rotationFrequency: 'none',
+
+  /**
+   * Date-stamped files are kept forever by default
+   */
+  retentionDays: 0,
+
+  /**
+   * No transports configured: a FileTransport is created from the file options
+   */
+  transports: [],
 };
 
 /**
- * Valid log format options.
+ * Valid time-based rotation frequencies.
+ * 
+ * @example
+ * import { ROTATION_FREQUENCIES } from './middleware';
+ * 
+ * console.log(ROTATION_FREQUENCIES); // ['none', 'daily', 'hourly']
+ */
+export const ROTATION_FREQUENCIES = ['none', 'daily', 'hourly'] as const;
+
+/**
+ * Log levels, from least to most severe.
+ * 
+ * @example
+ * import { LOG_LEVELS } from './middleware';
+ * 
+ * console.log(LOG_LEVELS); // ['debug', 'info', 'warn', 'error']
+ */
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+/**
+ * Valid IP address modes.
+ * 
+ * @example
+ * import { IP_MODES } from './middleware';
+ * 
+ * console.log(IP_MODES); // ['full', 'truncate', 'hash', 'none']
+ */
+export const IP_MODES = ['full', 'truncate', 'hash', 'none'] as const;
+
+/**
+ * Query parameters redacted by default from logged URLs.
+ * 
+ * @example
+ * import { createRequestLogger, DEFAULT_REDACTED_QUERY_PARAMS } from './middleware';
+ * 
+ * app.use(createRequestLogger({ redactQueryParams: [...DEFAULT_REDACTED_QUERY_PARAMS, 'ssn'] }));
+ */
+export const DEFAULT_REDACTED_QUERY_PARAMS: ReadonlyArray<string | RegExp> = DEFAULT_CONFIG.redactQueryParams;
+
+/**
+ * Built-in URL redaction detectors.
+ * 
+ * @example
+ * import { URL_DETECTORS } from './middleware';
  * 
- * This constant defines the allowed values for the format configuration option.
+ * console.log(URL_DETECTORS); // ['email', 'jwt', 'card', 'secret']
+ */
+export const URL_DETECTORS = ['email', 'jwt', 'card', 'secret'] as const;
+
+/**
+ * Headers redacted by default when captured with includeHeaders.
+ * 
+ * @example
+ * import { createRequestLogger, DEFAULT_REDACTED_HEADERS } from './middleware';
+ * 
+ * app.use(createRequestLogger({
+ *   includeHeaders: '*',
+ *   redactHeaders: [...DEFAULT_REDACTED_HEADERS, 'x-session-token'],
+ * }));
+ */
+export const DEFAULT_REDACTED_HEADERS: readonly string[] = DEFAULT_CONFIG.redactHeaders;
+
+/**
+ * Fields redacted by default from captured request bodies.
+ * 
+ * @example
+ * import { createRequestLogger, DEFAULT_REDACTED_BODY_FIELDS } from './middleware';
+ * 
+ * app.use(createRequestLogger({
+ *   captureBody: true,
+ *   redactBodyFields: [...DEFAULT_REDACTED_BODY_FIELDS, 'user.dateOfBirth'],
+ * }));
+ */
+export const DEFAULT_REDACTED_BODY_FIELDS: readonly string[] = DEFAULT_CONFIG.redactBodyFields;
+
+/**
+ * Valid header redaction modes.
+ * 
+ * @example
+ * import { HEADER_REDACTIONS } from './middleware';
+ * 
+ * console.log(HEADER_REDACTIONS); // ['full', 'partial']
+ */
+export const HEADER_REDACTIONS = ['full', 'partial'] as const;
+
+/**
+ * Built-in request ID generators.
  * 
  * @example
- * import { LOG_FORMATS } from './middleware';
+ * import { REQUEST_ID_GENERATORS } from './middleware';
  * 
- * console.log(LOG_FORMATS); // ['json', 'text']
+ * console.log(REQUEST_ID_GENERATORS); // ['uuid', 'ulid']
  */
-export const LOG_FORMATS = ['json', 'text'] as const;
+export const REQUEST_ID_GENERATORS = ['uuid', 'ulid'] as const;
 
 /**
  * Default log directory path.
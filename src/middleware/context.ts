@@ -0,0 +1,44 @@
+/**
+ * Request Context
+ *
+ * Keeps per-request values (such as the request ID) in AsyncLocalStorage,
+ * so code anywhere in a request's async call chain can read them without
+ * passing `req` around.
+ *
+ * @module middleware/context
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestContext } from './types';
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Returns the context of the request being handled.
+ *
+ * Works in route handlers, in later middleware, and in anything they call
+ * or await, as long as the request logger runs before them.
+ *
+ * @returns The current request's context, or undefined outside a request
+ *
+ * @example
+ * import { getRequestContext } from './middleware';
+ *
+ * async function findBook(id: string): Promise<Book> {
+ *   const { requestId } = getRequestContext() ?? {};
+ *   return booksApi.get(id, { headers: { 'X-Request-Id': requestId } });
+ * }
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Runs a function (the rest of the middleware chain) inside a request context.
+ *
+ * @param context - The request's context
+ * @param fn - Function to run
+ */
+export function runWithRequestContext(context: RequestContext, fn: () => void): void {
+  storage.run(context, fn);
+}
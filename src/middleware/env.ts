@@ -0,0 +1,201 @@
+/**
+ * Environment Configuration
+ *
+ * Reads logger options from environment variables, such as the LOG_*
+ * variables set in render.yaml. Values are parsed strictly: a value that
+ * is not exactly a boolean, number, list entry or option name throws an
+ * EnvConfigError naming the variable.
+ *
+ * @module middleware/env
+ */
+
+import { HEADER_REDACTIONS, IP_MODES, LOG_LEVELS, REQUEST_ID_GENERATORS, ROTATION_FREQUENCIES, URL_DETECTORS } from './constants';
+import { EnvConfigError } from './errors';
+import { isValidFormat } from './formatters';
+import { isProxyRange } from './ip';
+import { isTemplate } from './templates';
+import { LoggerConfig } from './types';
+
+/**
+ * How one environment variable is parsed.
+ */
+interface EnvOption {
+  /** The option the variable sets */
+  option: keyof LoggerConfig;
+
+  /** Description of valid values, for errors */
+  expected: string;
+
+  /** Parses the trimmed value; undefined when it is invalid */
+  parse(value: string): unknown;
+}
+
+/** Strict decimal numbers: no sign, exponent, hex or surrounding text */
+const NUMBER_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Parses 'true', 'false', '1' or '0'.
+ */
+function booleanOption(option: keyof LoggerConfig): EnvOption {
+  return {
+    option,
+    expected: 'true or false',
+    parse: (value) => ({ true: true, '1': true, false: false, '0': false } as Record<string, boolean>)[value],
+  };
+}
+
+/**
+ * Parses a decimal number, an integer when `integer` is set, of at least `min`
+ * (or above it, when `exclusive` is set).
+ */
+function numberOption(option: keyof LoggerConfig, { min = 0, exclusive = false, integer = false, max = Infinity } = {}): EnvOption {
+  const kind = integer ? 'an integer' : 'a number';
+  const range = max !== Infinity ? ` from ${min} to ${max}` : exclusive ? ` greater than ${min}` : ` of at least ${min}`;
+  return {
+    option,
+    expected: `${kind}${range}`,
+    parse: (value) => {
+      const number = NUMBER_PATTERN.test(value) ? Number(value) : NaN;
+      const valid = Number.isFinite(number) && (!integer || Number.isInteger(number))
+        && (exclusive ? number > min : number >= min) && number <= max;
+      return valid ? number : undefined;
+    },
+  };
+}
+
+/**
+ * Accepts a non-empty string, optionally checked by `isValid`.
+ */
+function stringOption(option: keyof LoggerConfig, expected = 'a non-empty value', isValid: (value: string) => boolean = () => true): EnvOption {
+  return { option, expected, parse: (value) => isValid(value) ? value : undefined };
+}
+
+/**
+ * Accepts one of a fixed set of names.
+ */
+function oneOfOption(option: keyof LoggerConfig, names: readonly string[]): EnvOption {
+  return { option, expected: `one of ${names.join(', ')}`, parse: (value) => names.includes(value) ? value : undefined };
+}
+
+/**
+ * Parses a comma-separated list. Entries are trimmed; empty entries are
+ * invalid, as are entries `isValid` rejects.
+ */
+function listOption(option: keyof LoggerConfig, expected = 'a comma-separated list', isValid: (entry: string) => boolean = () => true): EnvOption {
+  return { option, expected, parse: (value) => parseList(value, isValid) };
+}
+
+/**
+ * Splits a comma-separated list; undefined if an entry is empty or invalid.
+ */
+function parseList(value: string, isValid: (entry: string) => boolean): string[] | undefined {
+  const entries = value.split(',').map((entry) => entry.trim());
+  return entries.every((entry) => entry !== '' && isValid(entry)) ? entries : undefined;
+}
+
+/**
+ * Variables read by loadConfigFromEnv, by name without the prefix.
+ */
+const ENV_OPTIONS: Readonly<Record<string, EnvOption>> = {
+  ENABLED: booleanOption('enabled'),
+  FILE_PATH: stringOption('logFilePath'),
+  FORMAT: stringOption('format', 'a registered format or a token template', (value) => isValidFormat(value) || isTemplate(value)),
+  W3C_FIELDS: listOption('w3cFields', 'a comma-separated list of W3C field identifiers'),
+  INCLUDE_IP: booleanOption('includeIp'),
+  TRUSTED_PROXIES: {
+    option: 'trustedProxies',
+    expected: 'express, true, false, a hop count or a comma-separated list of addresses, CIDR ranges, loopback, linklocal and uniquelocal',
+    parse: (value) => {
+      if (value === 'express' || value === 'true' || value === 'false') {
+        return value === 'express' ? value : value === 'true';
+      }
+      return /^\d+$/.test(value) ? Number(value) : parseList(value, isProxyRange);
+    },
+  },
+  IP_MODE: oneOfOption('ipMode', IP_MODES),
+  IP_HASH_SECRET: stringOption('ipHashSecret'),
+  IP_HASH_ROTATION_DAYS: numberOption('ipHashRotationDays', { exclusive: true }),
+  INCLUDE_USER_AGENT: booleanOption('includeUserAgent'),
+  INCLUDE_REFERER: booleanOption('includeReferer'),
+  REDACT_QUERY_PARAMS: listOption('redactQueryParams', 'a comma-separated list of query parameter names'),
+  REDACT_PATH_PATTERNS: listOption('redactPathPatterns', `a comma-separated list of ${URL_DETECTORS.join(', ')}`, (entry) => (URL_DETECTORS as readonly string[]).includes(entry)),
+  INCLUDE_HEADERS: {
+    option: 'includeHeaders',
+    expected: '* or a comma-separated list of header names',
+    parse: (value) => value === '*' ? value : parseList(value, () => true),
+  },
+  REDACT_HEADERS: listOption('redactHeaders', 'a comma-separated list of header names'),
+  HEADER_REDACTION: oneOfOption('headerRedaction', HEADER_REDACTIONS),
+  CAPTURE_BODY: booleanOption('captureBody'),
+  MAX_BODY_BYTES: numberOption('maxBodyBytes', { min: 1, integer: true }),
+  BODY_CONTENT_TYPES: listOption('bodyContentTypes', 'a comma-separated list of content types'),
+  REDACT_BODY_FIELDS: listOption('redactBodyFields', 'a comma-separated list of field names or paths'),
+  REQUEST_ID_HEADER: stringOption('requestIdHeader'),
+  REQUEST_ID_GENERATOR: oneOfOption('requestIdGenerator', REQUEST_ID_GENERATORS),
+  INCLUDE_TRACE_CONTEXT: booleanOption('includeTraceContext'),
+  START_TRACE: booleanOption('startTrace'),
+  ON_RESPONSE: booleanOption('logOnResponse'),
+  CAPTURE_RESPONSE_BODY: booleanOption('captureResponseBody'),
+  MAX_RESPONSE_BODY_BYTES: numberOption('maxResponseBodyBytes', { min: 1, integer: true }),
+  MIN_LEVEL: oneOfOption('minLevel', LOG_LEVELS),
+  INCLUDE: listOption('include', 'a comma-separated list of path globs'),
+  EXCLUDE: listOption('exclude', 'a comma-separated list of path globs'),
+  SAMPLE_RATE: numberOption('sampleRate', { max: 1 }),
+  ALWAYS_LOG_STATUS: numberOption('alwaysLogStatus', { integer: true }),
+  ALWAYS_LOG_SLOWER_THAN_MS: numberOption('alwaysLogSlowerThanMs'),
+  FLUSH_INTERVAL: numberOption('flushInterval', { exclusive: true }),
+  MAX_BUFFER_SIZE: numberOption('maxBufferSize', { min: 1, integer: true }),
+  MAX_FILE_SIZE: numberOption('maxFileSize', { integer: true }),
+  MAX_FILES: numberOption('maxFiles', { min: 1, integer: true }),
+  ROTATION_FREQUENCY: oneOfOption('rotationFrequency', ROTATION_FREQUENCIES),
+  RETENTION_DAYS: numberOption('retentionDays'),
+};
+
+/**
+ * Reads logger options from environment variables.
+ *
+ * Each variable is the prefix followed by the option's name in upper snake
+ * case, without a leading "log": LOG_FILE_PATH for logFilePath,
+ * LOG_ON_RESPONSE for logOnResponse, LOG_INCLUDE_IP for includeIp, and so
+ * on. Options that take functions, RegExps or objects (transports, skip,
+ * levelFor, sampleRules, ...) have no variable. Unset and empty variables
+ * are ignored.
+ *
+ * - Booleans: 'true', 'false', '1' or '0'
+ * - Numbers: decimal digits, within the option's range
+ * - Lists: comma-separated, without empty entries
+ * - Names (ipMode, minLevel, ...): one of the option's values, as spelled in the docs
+ *
+ * With the `fromEnv` option, createRequestLogger() calls this itself;
+ * options passed to createRequestLogger() take precedence over variables,
+ * which take precedence over the defaults.
+ *
+ * @param prefix - Prefix of the variable names
+ * @param env - Variables to read
+ * @returns The options set by the variables
+ * @throws EnvConfigError naming the first variable whose value is invalid
+ *
+ * @example
+ * // LOG_FORMAT=text LOG_INCLUDE_IP=true LOG_EXCLUDE=/health,/static/**
+ * loadConfigFromEnv();
+ * // Returns: { format: 'text', includeIp: true, exclude: ['/health', '/static/**'] }
+ */
+export function loadConfigFromEnv(prefix = 'LOG_', env: NodeJS.ProcessEnv = process.env): LoggerConfig {
+  const config: Record<string, unknown> = {};
+
+  for (const [name, { option, expected, parse }] of Object.entries(ENV_OPTIONS)) {
+    const variable = `${prefix}${name}`;
+    const value = env[variable]?.trim();
+    if (!value) {
+      continue;
+    }
+
+    const parsed = parse(value);
+    if (parsed === undefined) {
+      throw new EnvConfigError(variable, value, expected);
+    }
+    config[option] = parsed;
+  }
+
+  return config as LoggerConfig;
+}
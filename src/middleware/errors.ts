@@ -0,0 +1,52 @@
+/**
+ * Configuration Errors
+ *
+ * Errors thrown for configuration the logger cannot start with.
+ *
+ * @module middleware/errors
+ */
+
+import { ConfigProblem } from './types';
+
+/**
+ * Error for an environment variable whose value cannot be parsed.
+ *
+ * @example
+ * try {
+ *   loadConfigFromEnv();
+ * } catch (error) {
+ *   if (error instanceof EnvConfigError) {
+ *     console.error(error.message); // 'Invalid LOG_INCLUDE_IP "yes": expected true or false'
+ *   }
+ * }
+ */
+export class EnvConfigError extends Error {
+  readonly code = 'ERR_LOG_ENV';
+
+  constructor(readonly variable: string, readonly value: string, readonly expected: string) {
+    super(`Invalid ${variable} "${value}": expected ${expected}`);
+    this.name = 'EnvConfigError';
+  }
+}
+
+/**
+ * Error for a configuration with problems, thrown in strict mode. The
+ * message lists every problem with its path.
+ *
+ * @example
+ * createRequestLogger({ strict: true, includeIP: true, maxFiles: 0 } as LoggerConfig);
+ * // LoggerConfigError: Invalid logger configuration (2 problems):
+ * //   includeIP: Unknown option "includeIP". Did you mean "includeIp"?
+ * //   maxFiles: Invalid maxFiles "0".
+ */
+export class LoggerConfigError extends Error {
+  readonly code = 'ERR_LOG_CONFIG';
+
+  constructor(readonly problems: readonly ConfigProblem[]) {
+    super([
+      `Invalid logger configuration (${problems.length} ${problems.length === 1 ? 'problem' : 'problems'}):`,
+      ...problems.map((problem) => `  ${problem.path}: ${problem.message}`),
+    ].join('\n'));
+    this.name = 'LoggerConfigError';
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Route Filters
+ *
+ * Decides which requests are logged from include and exclude rules
+ * (globs, RegExps and method and path pairs) and a skip predicate. Rules
+ * are compiled once, when the logger is created.
+ *
+ * @module middleware/filters
+ */
+
+import { Request, Response } from 'express';
+import { FilterExplanation, RouteFilter, RouteRequest } from './types';
+
+/**
+ * Options for createRequestFilter, already validated.
+ */
+export interface RequestFilterOptions {
+  /** Rules a request must match one of to be logged; empty for every request */
+  include: readonly RouteFilter[];
+
+  /** Rules excluding matching requests */
+  exclude: readonly RouteFilter[];
+
+  /** Predicate skipping requests; called once the response status is known when logging on response */
+  skip: (req: Request, res: Response) => boolean;
+}
+
+/**
+ * Request filtering for one logger.
+ */
+export interface RequestFilter {
+  /**
+   * Checks the include and exclude rules.
+   *
+   * @returns True if the request is logged, unless skipped
+   */
+  matches(req: RouteRequest): boolean;
+
+  /**
+   * Applies the skip predicate, treating a throwing predicate as false.
+   *
+   * @returns True if the request is skipped
+   */
+  skips(req: Request, res: Response): boolean;
+
+  /**
+   * Explains whether a request is logged and which rule decided it.
+   * The skip predicate is only applied when a response is given.
+   */
+  explain(req: RouteRequest, res?: Response): FilterExplanation;
+}
+
+/**
+ * A rule compiled for matching.
+ */
+interface CompiledRule {
+  /** The rule as configured */
+  rule: RouteFilter;
+
+  /** Uppercase methods the rule applies to; undefined for any method */
+  methods?: ReadonlySet<string>;
+
+  /** Path the rule matches exactly, for rules without wildcards */
+  exactPath?: string;
+
+  /** Pattern the path must match; undefined with exactPath or for any path */
+  pathPattern?: RegExp;
+}
+
+/**
+ * Compiles include and exclude rules and the skip predicate into a filter.
+ *
+ * A string rule is a glob matched against the whole request path (without
+ * the query string): '*' matches any characters except '/', '**' any
+ * characters, and '?' one character except '/'. A RegExp rule is tested
+ * against the path. An object rule matches requests with one of its
+ * methods (case-insensitively) and its path, given as a glob or RegExp;
+ * either may be omitted.
+ *
+ * @param options - Include and exclude rules, and the skip predicate
+ * @returns The filter
+ *
+ * @example
+ * const filter = createRequestFilter({ include: [], exclude: ['/health', { method: 'OPTIONS' }], skip: () => false });
+ * filter.matches({ method: 'GET', url: '/health' });       // false
+ * filter.matches({ method: 'GET', url: '/api/books?page=2' }); // true
+ */
+export function createRequestFilter(options: RequestFilterOptions): RequestFilter {
+  const include = options.include.map(compileRule);
+  const exclude = options.exclude.map(compileRule);
+
+  const firstMatch = (rules: readonly CompiledRule[], method: string, path: string): number =>
+    rules.findIndex((rule) => matchesRule(rule, method, path));
+
+  const skips = (req: Request, res: Response): boolean => {
+    try {
+      return Boolean(options.skip(req, res));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`[Request Logger] skip failed for ${req.method} ${requestPath(req)}: ${errorMessage}`);
+      return false;
+    }
+  };
+
+  const explain = (req: RouteRequest, res?: Response): FilterExplanation => {
+    const method = (req.method ?? '').toUpperCase();
+    const path = requestPath(req);
+    const request = `${method} ${path}`;
+
+    const included = include.length === 0 ? undefined : firstMatch(include, method, path);
+    if (included === -1) {
+      return { logged: false, reason: `${request} matches no include rule` };
+    }
+
+    const excluded = firstMatch(exclude, method, path);
+    if (excluded !== -1) {
+      return {
+        logged: false,
+        list: 'exclude',
+        index: excluded,
+        rule: options.exclude[excluded],
+        reason: `${request} matches exclude[${excluded}] ${describeRule(options.exclude[excluded])}`,
+      };
+    }
+
+    if (res && skips(req as Request, res)) {
+      return { logged: false, list: 'skip', reason: `${request} is skipped by the skip predicate` };
+    }
+
+    if (included === undefined) {
+      return { logged: true, reason: `${request} matches no exclude rule` };
+    }
+    return {
+      logged: true,
+      list: 'include',
+      index: included,
+      rule: options.include[included],
+      reason: `${request} matches include[${included}] ${describeRule(options.include[included])}`,
+    };
+  };
+
+  return {
+    matches: (req) => {
+      const method = (req.method ?? '').toUpperCase();
+      const path = requestPath(req);
+      return (include.length === 0 || firstMatch(include, method, path) !== -1) && firstMatch(exclude, method, path) === -1;
+    },
+    skips,
+    explain,
+  };
+}
+
+/**
+ * Returns the path of a request, without the query string, as matched by
+ * route filters and sampling rules.
+ *
+ * @param req - The request
+ * @returns The path
+ *
+ * @example
+ * requestPath({ url: '/api/books?page=2' }); // '/api/books'
+ */
+export function requestPath(req: Pick<RouteRequest, 'url' | 'originalUrl'>): string {
+  return (req.originalUrl ?? req.url ?? '').split('?')[0];
+}
+
+/**
+ * Compiles a glob into an anchored pattern: '**' matches any characters,
+ * '*' any characters except '/', and '?' one character except '/'.
+ *
+ * @param glob - The glob
+ * @returns The pattern
+ *
+ * @example
+ * globPattern('/static/**').test('/static/css/app.css'); // true
+ * globPattern('/api/*').test('/api/books/42');            // false
+ */
+export function globPattern(glob: string): RegExp {
+  const source = glob.replace(/\*\*|[*?]|[.+^${}()|[\]\\]/g, (token) => {
+    switch (token) {
+      case '**': return '.*';
+      case '*': return '[^/]*';
+      case '?': return '[^/]';
+      default: return `\\${token}`;
+    }
+  });
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compiles a rule, keeping paths without wildcards for an exact comparison.
+ */
+function compileRule(rule: RouteFilter): CompiledRule {
+  const { method, path } = typeof rule === 'string' || rule instanceof RegExp ? { method: undefined, path: rule } : rule;
+  const methods = method === undefined ? undefined : new Set((Array.isArray(method) ? method : [method]).map((name) => name.toUpperCase()));
+
+  if (typeof path === 'string') {
+    return /[*?]/.test(path) ? { rule, methods, pathPattern: globPattern(path) } : { rule, methods, exactPath: path };
+  }
+  return { rule, methods, pathPattern: path };
+}
+
+/**
+ * Checks a request's method and path against a compiled rule.
+ */
+function matchesRule(rule: CompiledRule, method: string, path: string): boolean {
+  if (rule.methods && !rule.methods.has(method)) {
+    return false;
+  }
+  if (rule.exactPath !== undefined) {
+    return rule.exactPath === path;
+  }
+  return rule.pathPattern === undefined || rule.pathPattern.test(path);
+}
+
+/**
+ * Describes a rule for explanations, e.g. '"/health"' or 'GET /^\/api\//'.
+ */
+function describeRule(rule: RouteFilter): string {
+  if (typeof rule === 'string') {
+    return JSON.stringify(rule);
+  }
+  if (rule instanceof RegExp) {
+    return String(rule);
+  }
+
+  const methods = rule.method === undefined ? '' : (Array.isArray(rule.method) ? rule.method : [rule.method]).join('|').toUpperCase();
+  const path = rule.path === undefined ? '' : typeof rule.path === 'string' ? JSON.stringify(rule.path) : String(rule.path);
+  return [methods, path].filter(Boolean).join(' ');
+}
@@ -0,0 +1,475 @@
+/**
+ * Log Formatters
+ * 
+ * Built-in formatters (JSON, text, NCSA Common and Combined, logfmt and
+ * Elastic Common Schema; W3C extended lives in the w3c module) and the
+ * registry that maps format names to formatter functions. Custom formats
+ * are added with registerFormatter() and can then be selected by name,
+ * like the built-in formats.
+ * 
+ * @module middleware/formatters
+ */
+
+import { BuiltInLogFormat, FormatterContext, LogEntry, LogFormat, LogFormatter } from './types';
+import { formatAsW3c } from './w3c';
+
+/**
+ * JSON names of trace fields, following the OpenTelemetry log data model
+ */
+const JSON_TRACE_FIELDS: Record<string, string> = {
+  traceId: 'trace_id',
+  spanId: 'span_id',
+  parentSpanId: 'parent_span_id',
+  traceFlags: 'trace_flags',
+};
+
+/**
+ * Formats a log entry as a JSON string with newline.
+ * 
+ * Converts the LogEntry object to a compact JSON string (no pretty-printing)
+ * and appends a newline character for proper file appending. Response outcome
+ * fields (status, durationMs, requestBytes, responseBytes) are emitted as
+ * numbers when present. The level follows the timestamp. Trace fields use
+ * their conventional names: trace_id, span_id, parent_span_id and trace_flags.
+ * 
+ * @param logEntry - The log entry to format
+ * @returns JSON string representation with newline character
+ * 
+ * @example
+ * const formatted = formatAsJson({ timestamp: '2025-11-10T17:19:12.964Z', method: 'GET', url: '/api/books' });
+ * // Returns: '{"timestamp":"2025-11-10T17:19:12.964Z","method":"GET","url":"/api/books"}\n'
+ * 
+ * @example
+ * const formatted = formatAsJson({ timestamp: '2025-11-10T17:19:12.964Z', method: 'GET', url: '/api/books', traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', traceFlags: '01' });
+ * // Returns: '{"timestamp":"2025-11-10T17:19:12.964Z","method":"GET","url":"/api/books","trace_id":"4bf92f3577b34da6a3ce929d0e0e4736","span_id":"00f067aa0ba902b7","trace_flags":"01"}\n'
+ */
+export function formatAsJson(logEntry: LogEntry): string {
+  logEntry = withLevelFirst(logEntry);
+  if (logEntry.traceId === undefined && logEntry.spanId === undefined && logEntry.traceFlags === undefined) {
+    return JSON.stringify(logEntry) + '\n';
+  }
+
+  // Rename the trace fields, keeping the field order
+  const document: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(logEntry)) {
+    document[JSON_TRACE_FIELDS[key] ?? key] = value;
+  }
+  return JSON.stringify(document) + '\n';
+}
+
+/**
+ * Moves the level, when set, right after the timestamp.
+ */
+function withLevelFirst(logEntry: LogEntry): LogEntry {
+  if (logEntry.level === undefined) {
+    return logEntry;
+  }
+
+  const { timestamp, level, ...fields } = logEntry;
+  return { timestamp, level, ...fields };
+}
+
+/**
+ * Formats a log entry as human-readable text with newline.
+ * 
+ * Creates a text string in the format: [timestamp] [LEVEL] METHOD /url STATUS DURATIONms in=REQB out=RESB - ip - userAgent
+ * Optional fields (level, response outcome, ip, userAgent) are only included if present in the log entry.
+ * 
+ * @param logEntry - The log entry to format
+ * @returns Text string in format: [timestamp] METHOD /url - ip - userAgent
+ * 
+ * @example
+ * const formatted = formatAsText({ timestamp: '2025-11-10T17:19:12.964Z', method: 'GET', url: '/api/books', ip: '192.168.1.100' });
+ * // Returns: '[2025-11-10T17:19:12.964Z] GET /api/books - 192.168.1.100\n'
+ * 
+ * @example
+ * const formatted = formatAsText({ timestamp: '2025-11-10T17:19:12.964Z', method: 'POST', url: '/api/books', requestBytes: 27, status: 201, durationMs: 1.482, responseBytes: 84 });
+ * // Returns: '[2025-11-10T17:19:12.964Z] POST /api/books 201 1.482ms in=27B out=84B\n'
+ * 
+ * @example
+ * const formatted = formatAsText({ timestamp: '2025-11-10T17:19:12.964Z', level: 'warn', method: 'GET', url: '/api/books/0', status: 404, durationMs: 0.9 });
+ * // Returns: '[2025-11-10T17:19:12.964Z] [WARN] GET /api/books/0 404 0.9ms in=0B out=0B\n'
+ */
+export function formatAsText(logEntry: LogEntry): string {
+  const level = logEntry.level ? ` [${logEntry.level.toUpperCase()}]` : '';
+  let text = `[${logEntry.timestamp}]${level} ${logEntry.method} ${logEntry.url}`;
+  
+  if (logEntry.status !== undefined) {
+    text += ` ${logEntry.status} ${logEntry.durationMs}ms in=${logEntry.requestBytes ?? 0}B out=${logEntry.responseBytes ?? 0}B`;
+  }
+  
+  if (logEntry.aborted) {
+    text += ' (aborted)';
+  }
+  
+  if (logEntry.ip) {
+    text += ` - ${logEntry.ip}`;
+  }
+  
+  if (logEntry.userAgent) {
+    text += ` - ${logEntry.userAgent}`;
+  }
+  
+  return text + '\n';
+}
+
+/**
+ * Formats a log entry in NCSA Common Log Format with newline.
+ * 
+ * Creates a line in the format: host ident authuser [date] "request" status bytes
+ * The host is the client IP (when includeIp is enabled), ident and authuser
+ * are always '-', the date is the request time in UTC, and bytes is the
+ * response body size. Missing fields are written as '-'.
+ * 
+ * @param logEntry - The log entry to format
+ * @param context - The request the entry was captured from, for the HTTP version
+ * @returns Common Log Format line with newline character
+ * 
+ * @example
+ * const formatted = formatAsClf({ timestamp: '2026-10-19T13:55:36.000Z', method: 'GET', url: '/api/books', ip: '192.168.1.100', status: 200, responseBytes: 2326 }, { req, res });
+ * // Returns: '192.168.1.100 - - [19/Oct/2026:13:55:36 +0000] "GET /api/books HTTP/1.1" 200 2326\n'
+ */
+export function formatAsClf(logEntry: LogEntry, context?: FormatterContext): string {
+  return commonLogFields(logEntry, context) + '\n';
+}
+
+/**
+ * Formats a log entry in NCSA Combined Log Format with newline.
+ * 
+ * Common Log Format followed by the quoted Referer and User-Agent headers
+ * (when includeReferer and includeUserAgent are enabled), or "-" when absent.
+ * 
+ * @param logEntry - The log entry to format
+ * @param context - The request the entry was captured from, for the HTTP version
+ * @returns Combined Log Format line with newline character
+ * 
+ * @example
+ * const formatted = formatAsCombined({ timestamp: '2026-10-19T13:55:36.000Z', method: 'GET', url: '/api/books', status: 200, responseBytes: 2326, referer: 'https://example.com/', userAgent: 'curl/8.4.0' }, { req, res });
+ * // Returns: '- - - [19/Oct/2026:13:55:36 +0000] "GET /api/books HTTP/1.1" 200 2326 "https://example.com/" "curl/8.4.0"\n'
+ */
+export function formatAsCombined(logEntry: LogEntry, context?: FormatterContext): string {
+  return `${commonLogFields(logEntry, context)} "${quoteLogField(logEntry.referer)}" "${quoteLogField(logEntry.userAgent)}"\n`;
+}
+
+/**
+ * Builds the fields shared by the Common and Combined formats.
+ */
+function commonLogFields(logEntry: LogEntry, context?: FormatterContext): string {
+  const httpVersion = context?.req.httpVersion ? ` HTTP/${context.req.httpVersion}` : '';
+  const requestLine = `${logEntry.method} ${logEntry.url}${httpVersion}`;
+  const bytes = logEntry.responseBytes ? String(logEntry.responseBytes) : '-';
+
+  return `${logEntry.ip || '-'} - - [${formatClfDate(logEntry.timestamp)}] "${quoteLogField(requestLine)}" ${logEntry.status ?? '-'} ${bytes}`;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Formats an ISO timestamp as a Common Log Format date in UTC, e.g. '19/Oct/2026:13:55:36 +0000'.
+ * 
+ * @param timestamp - ISO 8601 timestamp
+ * @returns Common Log Format date, or '-' for an invalid timestamp
+ */
+export function formatClfDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) {
+    return '-';
+  }
+
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${pad(date.getUTCDate())}/${MONTHS[date.getUTCMonth()]}/${date.getUTCFullYear()}:${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
+
+/**
+ * Escapes a value for a quoted log field the way Apache does: backslashes
+ * and double quotes are backslash-escaped and control characters written
+ * as \xhh. Missing values become '-'.
+ */
+function quoteLogField(value: string | undefined): string {
+  if (!value) {
+    return '-';
+  }
+
+  return value.replace(/[\\"]|[\x00-\x1f\x7f]/g, (char) =>
+    char === '\\' || char === '"' ? `\\${char}` : `\\x${char.charCodeAt(0).toString(16).padStart(2, '0')}`
+  );
+}
+
+/**
+ * Formats a log entry as a logfmt line with newline.
+ * 
+ * Writes space-separated key=value pairs: `ts` for the timestamp and the level, then the
+ * other entry fields under their LogEntry names. Values containing spaces,
+ * '=', quotes or control characters (and empty values) are double-quoted,
+ * with quotes, backslashes and control characters escaped.
+ * 
+ * @param logEntry - The log entry to format
+ * @returns logfmt line with newline character
+ * 
+ * @example
+ * const formatted = formatAsLogfmt({ timestamp: '2026-10-19T13:55:36.123Z', method: 'GET', url: '/api/books', status: 200, userAgent: 'curl/8.4.0 (x86_64)' });
+ * // Returns: 'ts=2026-10-19T13:55:36.123Z method=GET url=/api/books status=200 userAgent="curl/8.4.0 (x86_64)"\n'
+ */
+export function formatAsLogfmt(logEntry: LogEntry): string {
+  const pairs: string[] = [];
+
+  for (const [key, value] of Object.entries(withLevelFirst(logEntry))) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const text = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+    pairs.push(`${key === 'timestamp' ? 'ts' : key}=${quoteLogfmtValue(text)}`);
+  }
+
+  return pairs.join(' ') + '\n';
+}
+
+/**
+ * Quotes a logfmt value when it would otherwise be ambiguous.
+ */
+function quoteLogfmtValue(value: string): string {
+  if (value !== '' && !/[\s="\\]|[\x00-\x1f\x7f]/.test(value)) {
+    return value;
+  }
+
+  const escaped = value.replace(/[\\"]|[\x00-\x1f\x7f]/g, (char) => {
+    switch (char) {
+      case '\\': return '\\\\';
+      case '"': return '\\"';
+      case '\n': return '\\n';
+      case '\r': return '\\r';
+      case '\t': return '\\t';
+      default: return `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+    }
+  });
+  return `"${escaped}"`;
+}
+
+/** Elastic Common Schema version the ECS format follows */
+export const ECS_VERSION = '8.11.0';
+
+/**
+ * Formats a log entry as Elastic Common Schema (ECS) JSON with newline.
+ * 
+ * Maps LogEntry fields to their ECS fields:
+ * - timestamp -> @timestamp
+ * - level -> log.level
+ * - method -> http.request.method
+ * - url -> url.original
+ * - requestId -> http.request.id
+ * - traceId / spanId / parentSpanId -> trace.id / span.id / parent.id
+ * - ip -> source.ip
+ * - userAgent -> user_agent.original
+ * - referer -> http.request.referrer
+ * - status -> http.response.status_code
+ * - durationMs -> event.duration (nanoseconds)
+ * - requestBytes / responseBytes -> http.request.body.bytes / http.response.body.bytes
+ * - body / responseBody -> http.request.body.content / http.response.body.content (JSON text for objects)
+ * 
+ * event.outcome is 'failure' for aborted requests and 5xx responses and
+ * 'success' for other completed responses.
+ * 
+ * @param logEntry - The log entry to format
+ * @returns ECS JSON string with newline character
+ * 
+ * @example
+ * const formatted = formatAsEcs({ timestamp: '2026-10-19T13:55:36.123Z', method: 'GET', url: '/api/books', status: 200, durationMs: 1.482 });
+ * // Returns: '{"@timestamp":"2026-10-19T13:55:36.123Z","ecs":{"version":"8.11.0"},"event":{"kind":"event","category":["web"],"type":["access"],"duration":1482000,"outcome":"success"},"http":{"request":{"method":"GET"},"response":{"status_code":200}},"url":{"original":"/api/books"}}\n'
+ */
+export function formatAsEcs(logEntry: LogEntry): string {
+  const event: Record<string, unknown> = { kind: 'event', category: ['web'], type: ['access'] };
+  const httpRequest: Record<string, unknown> = { method: logEntry.method };
+  const httpResponse: Record<string, unknown> = {};
+
+  if (logEntry.durationMs !== undefined) {
+    event.duration = Math.round(logEntry.durationMs * 1e6);
+  }
+  if (logEntry.aborted || (logEntry.status ?? 0) >= 500) {
+    event.outcome = 'failure';
+  } else if (logEntry.status !== undefined) {
+    event.outcome = 'success';
+  }
+
+  if (logEntry.requestId) {
+    httpRequest.id = logEntry.requestId;
+  }
+  if (logEntry.referer) {
+    httpRequest.referrer = logEntry.referer;
+  }
+  if (logEntry.requestBytes !== undefined || logEntry.body !== undefined) {
+    httpRequest.body = {
+      ...(logEntry.requestBytes !== undefined && { bytes: logEntry.requestBytes }),
+      ...(logEntry.body !== undefined && { content: bodyContent(logEntry.body) }),
+    };
+  }
+  if (logEntry.status !== undefined) {
+    httpResponse.status_code = logEntry.status;
+  }
+  if (logEntry.responseBytes !== undefined || logEntry.responseBody !== undefined) {
+    httpResponse.body = {
+      ...(logEntry.responseBytes !== undefined && { bytes: logEntry.responseBytes }),
+      ...(logEntry.responseBody !== undefined && { content: bodyContent(logEntry.responseBody) }),
+    };
+  }
+
+  const document: Record<string, unknown> = {
+    '@timestamp': logEntry.timestamp,
+    ecs: { version: ECS_VERSION },
+    ...(logEntry.level && { log: { level: logEntry.level } }),
+    event,
+    http: Object.keys(httpResponse).length > 0 ? { request: httpRequest, response: httpResponse } : { request: httpRequest },
+    url: { original: logEntry.url },
+  };
+
+  if (logEntry.traceId) {
+    document.trace = { id: logEntry.traceId };
+  }
+  if (logEntry.spanId) {
+    document.span = { id: logEntry.spanId };
+  }
+  if (logEntry.parentSpanId) {
+    document.parent = { id: logEntry.parentSpanId };
+  }
+  if (logEntry.ip) {
+    document.source = { ip: logEntry.ip };
+  }
+  if (logEntry.userAgent) {
+    document.user_agent = { original: logEntry.userAgent };
+  }
+
+  return JSON.stringify(document) + '\n';
+}
+
+/**
+ * Renders a captured body as text for ECS: strings as they are, anything else as JSON.
+ */
+function bodyContent(body: unknown): string {
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+/**
+ * Formatters by name, starting with the built-in formats.
+ */
+const formatters = new Map<LogFormat, LogFormatter>([
+  ['json', formatAsJson],
+  ['text', formatAsText],
+  ['clf', formatAsClf],
+  ['combined', formatAsCombined],
+  ['logfmt', formatAsLogfmt],
+  ['ecs', formatAsEcs],
+  ['w3c', formatAsW3c],
+]);
+
+const BUILT_IN_FORMATS: readonly BuiltInLogFormat[] = ['json', 'text', 'clf', 'combined', 'logfmt', 'ecs', 'w3c'];
+
+/** Names of the registered formats, built-in first, in registration order */
+const registeredFormats: LogFormat[] = [...BUILT_IN_FORMATS];
+
+/**
+ * Valid log format options.
+ * 
+ * This list defines the allowed names for the format configuration option.
+ * It starts with the built-in formats and grows as formats are added with
+ * registerFormatter().
+ * 
+ * @example
+ * import { LOG_FORMATS, registerFormatter } from './middleware';
+ * 
+ * console.log(LOG_FORMATS); // ['json', 'text', 'clf', 'combined', 'logfmt', 'ecs', 'w3c']
+ * registerFormatter('minimal', (entry) => `${entry.method} ${entry.url}\n`);
+ * console.log(LOG_FORMATS); // ['json', 'text', 'clf', 'combined', 'logfmt', 'ecs', 'w3c', 'minimal']
+ */
+export const LOG_FORMATS: readonly LogFormat[] = registeredFormats;
+
+/** Built-in formatters always end their output with a newline */
+const BUILT_IN_FORMATTERS = new Set<LogFormatter>([
+  formatAsJson,
+  formatAsText,
+  formatAsClf,
+  formatAsCombined,
+  formatAsLogfmt,
+  formatAsEcs,
+  formatAsW3c,
+]);
+
+/**
+ * Registers a custom output format.
+ * 
+ * Once registered, the format can be selected by name through the `format`
+ * option of the logger or any transport, and its name is listed in
+ * LOG_FORMATS. Register formats before creating the loggers that use them;
+ * registering an existing custom name replaces its formatter.
+ * 
+ * @param name - Format name to select the formatter by
+ * @param formatter - Function rendering a log entry as one line
+ * @throws TypeError if the name is empty or the formatter is not a function
+ * @throws Error if the name is one of the built-in formats
+ * 
+ * @example
+ * import { createRequestLogger, registerFormatter } from './middleware';
+ * 
+ * registerFormatter('minimal', (entry) => `${entry.method} ${entry.url} ${entry.status ?? '-'}\n`);
+ * 
+ * app.use(createRequestLogger({ format: 'minimal', logOnResponse: true }));
+ * // Output: GET /api/books 200
+ */
+export function registerFormatter(name: LogFormat, formatter: LogFormatter): void {
+  if (typeof name !== 'string' || name.length === 0) {
+    throw new TypeError('Formatter name must be a non-empty string');
+  }
+
+  if (typeof formatter !== 'function') {
+    throw new TypeError(`Formatter "${name}" must be a function`);
+  }
+
+  if ((BUILT_IN_FORMATS as readonly string[]).includes(name)) {
+    throw new Error(`Cannot replace the built-in "${name}" formatter`);
+  }
+
+  if (!formatters.has(name)) {
+    registeredFormats.push(name);
+  }
+  formatters.set(name, formatter);
+}
+
+/**
+ * Checks whether a format option names a registered format or is a formatter function.
+ * 
+ * @param format - Format name or formatter function
+ * @returns True if the format can be used
+ */
+export function isValidFormat(format: unknown): format is LogFormat | LogFormatter {
+  return typeof format === 'function' || (typeof format === 'string' && formatters.has(format));
+}
+
+/**
+ * Selects the appropriate formatter based on configuration.
+ * 
+ * Returns the formatter function itself, or the registered formatter that
+ * matches the requested name. Defaults to JSON formatter for unknown names.
+ * The returned formatter always ends its output with a newline and keeps
+ * the formatter's header, if any.
+ * 
+ * @param format - The desired log format (a registered name or a formatter function)
+ * @returns Formatter function that converts LogEntry to string
+ * 
+ * @example
+ * const formatter = selectFormatter('json');
+ * const formatted = formatter(logEntry);
+ */
+export function selectFormatter(format: LogFormat | LogFormatter): LogFormatter {
+  const formatter: LogFormatter = typeof format === 'function' ? format : formatters.get(format) ?? formatAsJson;
+
+  if (BUILT_IN_FORMATTERS.has(formatter)) {
+    return formatter;
+  }
+
+  // Custom formatters may leave out the trailing newline
+  const wrapped: LogFormatter = (logEntry, context) => {
+    const output = String(formatter(logEntry, context));
+    return output.endsWith('\n') ? output : output + '\n';
+  };
+  wrapped.header = formatter.header;
+  return wrapped;
+}
@@ -26,71 +26,700 @@
  * }));
  */
 
-import { Request, Response, NextFunction, RequestHandler } from 'express';
-import { promises as fs } from 'fs';
-import * as path from 'path';
-import { LoggerConfig, LogEntry } from './types';
-import { DEFAULT_CONFIG } from './constants';
+import { Request, Response, NextFunction } from 'express';
+import { ConfigProblem, LoggerConfig, LogEntry, LogFormat, LogFormatter, LogLevel, RequestContext, RequestLogger, RouteFilter, SampleRule, Transport, TrustedProxies } from './types';
+import { DEFAULT_CONFIG, HEADER_REDACTIONS, IP_MODES, LOG_LEVELS, REQUEST_ID_GENERATORS, ROTATION_FREQUENCIES, URL_DETECTORS } from './constants';
+import { runWithRequestContext } from './context';
+import {
+  applyResponseOutcome,
+  countResponseBytes,
+  elapsedMs,
+  measureRequestBytes,
+  onResponseComplete,
+} from './outcome';
+import { isValidFormat, selectFormatter } from './formatters';
+import { captureHeaders, loggedHeaderValue } from './headers';
+import { compileProxyTrust, createIpAnonymizer, isProxyRange, ProxyTrust, recordLoggedAddress, resolveClientAddress } from './ip';
+import { startBodyCapture } from './body';
+import { teeResponseBody } from './response-body';
+import { loadConfigFromEnv } from './env';
+import { LoggerConfigError } from './errors';
+import { createRequestFilter } from './filters';
+import { defaultLevelFor, meetsLevel } from './levels';
+import { createSampler, isSampled } from './sampling';
+import { resolveRequestId } from './request-id';
+import { resolveTraceContext } from './trace-context';
+import { redactUrl } from './url-redaction';
+import { compileTemplate, isTemplate } from './templates';
+import { createW3cFormatter, isW3cFieldList } from './w3c';
+import { FileTransport } from './transports';
 
-export { LoggerConfig, LogEntry } from './types';
-export { DEFAULT_CONFIG, LOG_FORMATS, DEFAULT_LOG_DIR, DEFAULT_LOG_FILE } from './constants';
+export {
+  LoggerConfig,
+  LogEntry,
+  ConfigProblem,
+  LogFormat,
+  BuiltInLogFormat,
+  FilterExplanation,
+  HeaderRedaction,
+  IpMode,
+  LogFormatter,
+  LogLevel,
+  RequestContext,
+  RequestIdGenerator,
+  RequestLogger,
+  RotationFrequency,
+  RouteFilter,
+  RouteRequest,
+  SampleRule,
+  TraceContext,
+  Transport,
+  TrustedProxies,
+  UrlDetector,
+} from './types';
+export {
+  DEFAULT_CONFIG,
+  DEFAULT_REDACTED_HEADERS,
+  DEFAULT_REDACTED_BODY_FIELDS,
+  DEFAULT_REDACTED_QUERY_PARAMS,
+  HEADER_REDACTIONS,
+  IP_MODES,
+  LOG_LEVELS,
+  URL_DETECTORS,
+  REQUEST_ID_GENERATORS,
+  ROTATION_FREQUENCIES,
+  DEFAULT_LOG_DIR,
+  DEFAULT_LOG_FILE,
+} from './constants';
+export { getRequestContext } from './context';
+export { loadConfigFromEnv } from './env';
+export { EnvConfigError, LoggerConfigError } from './errors';
+export { defaultLevelFor } from './levels';
+export { isSampled } from './sampling';
+export { LOG_FORMATS, registerFormatter } from './formatters';
+export { defineToken, TokenFunction } from './templates';
+export { createW3cFormatter } from './w3c';
+export {
+  FileTransport,
+  FileTransportOptions,
+  StreamTransport,
+  StreamTransportOptions,
+  ConsoleTransport,
+  ConsoleTransportOptions,
+  SyslogTransport,
+  SyslogTransportOptions,
+  SyslogFacility,
+  SyslogProtocol,
+  HttpTransport,
+  HttpTransportOptions,
+  HttpTransportStats,
+} from './transports';
 
 /**
  * Validates and merges user configuration with default values.
  * 
  * This function ensures that all configuration options have valid values by:
  * - Merging user-provided config with defaults
- * - Validating the format option (must be 'json' or 'text')
+ * - Validating the format option (must be a registered format name, a template or a formatter function)
  * - Validating the logFilePath option (must be a string)
- * - Logging warnings for invalid values and falling back to defaults
+ * - Validating the flushInterval, maxBufferSize, maxFiles, ipHashRotationDays, maxBodyBytes and maxResponseBodyBytes options (must be positive numbers)
+ * - Validating the trustedProxies option (must be 'express', a boolean, a non-negative integer or a list of addresses and ranges)
+ * - Validating the ipMode option (must be 'full', 'truncate', 'hash' or 'none') and ipHashSecret (must be a string)
+ * - Validating the maxFileSize, retentionDays, alwaysLogStatus and alwaysLogSlowerThanMs options (must be non-negative numbers)
+ * - Validating the rotationFrequency option (must be 'none', 'daily' or 'hourly')
+ * - Validating the w3cFields option (must be a non-empty list of field identifiers)
+ * - Validating the URL redaction rules (names, patterns and detector names)
+ * - Validating the header capture options and lowercasing their header names
+ * - Validating the body capture options and lowercasing their content types and field paths
+ * - Validating the response body options (a predicate, and logOnResponse enabled)
+ * - Validating the route filters (globs, RegExps or method and path rules) and the skip predicate
+ * - Validating the sampling options (rates from 0 to 1, and rules with a method, a path and a rate)
+ * - Validating the request ID options (header name, pattern and generator)
+ * - Validating the switches (enabled, includeIp, logOnResponse, strict, ...) and fromEnv
+ * - Validating the transports option (each must implement the Transport interface) and each transport's format and level
+ * - Flagging unknown options, suggesting the option that was probably meant
+ * - Reporting each problem with its path, and falling back to defaults
  * 
  * @param config - User-provided configuration options (optional)
+ * @param onProblem - Receives each problem and its fallback (default: logs a warning)
  * @returns Merged configuration with all required fields populated
  * 
  * @example
  * const config = validateAndMergeConfig({ format: 'text' });
  * // Returns: { logFilePath: './logs/requests.log', format: 'text', enabled: true, includeIp: false, includeUserAgent: false }
  */
-function validateAndMergeConfig(config?: LoggerConfig): Required<LoggerConfig> {
+function validateAndMergeConfig(config?: LoggerConfig, onProblem: ProblemHandler = warnAboutProblem): Required<LoggerConfig> {
+  // Options passed as undefined keep their defaults
   const mergedConfig: Required<LoggerConfig> = {
     ...DEFAULT_CONFIG,
-    ...config,
+    ...definedOptions(config),
   };
+  const report = (path: string, message: string, fallback: string): void => onProblem({ path, message }, fallback);
+
+  // Flag unknown options, which are otherwise silently ignored
+  for (const key of Object.keys(config ?? {})) {
+    if (!(key in DEFAULT_CONFIG)) {
+      const suggestion = suggestOption(key);
+      report(key, `Unknown option "${key}".${suggestion ? ` Did you mean "${suggestion}"?` : ''}`, 'It is ignored.');
+    }
+  }
 
   // Validate format option
-  if (config?.format && !['json', 'text'].includes(config.format)) {
-    console.warn(`Invalid log format "${config.format}". Falling back to "json".`);
+  if (config?.format !== undefined && !isValidFormat(config.format) && !isTemplate(config.format)) {
+    report('format', `Invalid log format "${String(config.format)}".`, 'Falling back to "json".');
     mergedConfig.format = 'json';
   }
 
   // Validate logFilePath
-  if (config?.logFilePath && typeof config.logFilePath !== 'string') {
-    console.warn('Invalid logFilePath. Using default.');
+  if (config?.logFilePath !== undefined && !(typeof config.logFilePath === 'string' && config.logFilePath.length > 0)) {
+    report('logFilePath', 'Invalid logFilePath.', 'Using default.');
     mergedConfig.logFilePath = DEFAULT_CONFIG.logFilePath;
   }
 
+  // Validate switches (must be booleans)
+  for (const option of ['enabled', 'includeIp', 'includeUserAgent', 'includeReferer', 'captureBody', 'includeTraceContext', 'startTrace', 'logOnResponse', 'captureResponseBody', 'strict'] as const) {
+    const value = config?.[option];
+    if (value !== undefined && typeof value !== 'boolean') {
+      report(option, `Invalid ${option} "${String(value)}". Use true or false.`, `Using default of ${DEFAULT_CONFIG[option]}.`);
+      mergedConfig[option] = DEFAULT_CONFIG[option];
+    }
+  }
+  if (config?.fromEnv !== undefined && typeof config.fromEnv !== 'boolean' && typeof config.fromEnv !== 'string') {
+    report('fromEnv', 'Invalid fromEnv. Use true or a variable prefix.', 'Environment variables are not read.');
+    mergedConfig.fromEnv = DEFAULT_CONFIG.fromEnv;
+  }
+
+  // Validate buffering options (must be positive numbers)
+  for (const option of ['flushInterval', 'maxBufferSize', 'maxFiles', 'ipHashRotationDays', 'maxBodyBytes', 'maxResponseBodyBytes'] as const) {
+    const value = config?.[option];
+    if (value !== undefined && !(typeof value === 'number' && Number.isFinite(value) && value > 0)) {
+      report(option, `Invalid ${option} "${value}".`, `Using default of ${DEFAULT_CONFIG[option]}.`);
+      mergedConfig[option] = DEFAULT_CONFIG[option];
+    }
+  }
+
+  // Validate maxFileSize, retentionDays and the sampling thresholds (0 disables them)
+  for (const option of ['maxFileSize', 'retentionDays', 'alwaysLogStatus', 'alwaysLogSlowerThanMs'] as const) {
+    const value = config?.[option];
+    if (value !== undefined && !(typeof value === 'number' && Number.isFinite(value) && value >= 0)) {
+      report(option, `Invalid ${option} "${value}".`, `Using default of ${DEFAULT_CONFIG[option]}.`);
+      mergedConfig[option] = DEFAULT_CONFIG[option];
+    }
+  }
+
+  // Validate rotationFrequency option
+  if (config?.rotationFrequency !== undefined && !ROTATION_FREQUENCIES.includes(config.rotationFrequency)) {
+    report('rotationFrequency', `Invalid rotationFrequency "${config.rotationFrequency}".`, 'Time-based rotation disabled.');
+    mergedConfig.rotationFrequency = DEFAULT_CONFIG.rotationFrequency;
+  }
+
+  // Validate IP address options
+  if (config?.trustedProxies !== undefined && !isTrustedProxies(config.trustedProxies)) {
+    report(entryPath('trustedProxies', config.trustedProxies, isProxyRange), 'Invalid trustedProxies.', `Using "${DEFAULT_CONFIG.trustedProxies}" (Express's 'trust proxy' setting).`);
+    mergedConfig.trustedProxies = DEFAULT_CONFIG.trustedProxies;
+  }
+  if (config?.ipMode !== undefined && !IP_MODES.includes(config.ipMode)) {
+    report('ipMode', `Invalid ipMode "${String(config.ipMode)}".`, 'Using "none" so that no unprotected address is logged.');
+    mergedConfig.ipMode = 'none';
+  }
+  if (config?.ipHashSecret !== undefined && typeof config.ipHashSecret !== 'string') {
+    report('ipHashSecret', 'Invalid ipHashSecret.', 'Using random keys.');
+    mergedConfig.ipHashSecret = DEFAULT_CONFIG.ipHashSecret;
+  }
+
+  // Validate w3cFields option
+  if (config?.w3cFields !== undefined && !isW3cFieldList(config.w3cFields)) {
+    report(entryPath('w3cFields', config.w3cFields, (field) => isW3cFieldList([field])), 'Invalid w3cFields.', 'Using the default W3C fields.');
+    mergedConfig.w3cFields = DEFAULT_CONFIG.w3cFields;
+  }
+
+  // Validate URL redaction rules; patterns are copied without global/sticky
+  // flags so that test() has no state between requests
+  const isQueryParamRule = (rule: unknown): boolean => (typeof rule === 'string' && rule.length > 0) || rule instanceof RegExp;
+  if (config?.redactQueryParams !== undefined && !(Array.isArray(config.redactQueryParams) && config.redactQueryParams.every(isQueryParamRule))) {
+    report(entryPath('redactQueryParams', config.redactQueryParams, isQueryParamRule), 'Invalid redactQueryParams. Use parameter names or regular expressions.', 'Using the default parameters.');
+    mergedConfig.redactQueryParams = DEFAULT_CONFIG.redactQueryParams;
+  }
+  const isPathRule = (rule: unknown): boolean => (URL_DETECTORS as readonly unknown[]).includes(rule) || rule instanceof RegExp;
+  if (config?.redactPathPatterns !== undefined && !(Array.isArray(config.redactPathPatterns) && config.redactPathPatterns.every(isPathRule))) {
+    report(entryPath('redactPathPatterns', config.redactPathPatterns, isPathRule), `Invalid redactPathPatterns. Use ${URL_DETECTORS.map((name) => `'${name}'`).join(', ')} or regular expressions.`, 'Using the default detectors.');
+    mergedConfig.redactPathPatterns = DEFAULT_CONFIG.redactPathPatterns;
+  }
+  mergedConfig.redactQueryParams = mergedConfig.redactQueryParams.map(withoutStatefulFlags);
+  mergedConfig.redactPathPatterns = mergedConfig.redactPathPatterns.map(withoutStatefulFlags);
+
+  // Validate header capture options; header names are matched in lowercase
+  const isHeaderName = (name: unknown): boolean => typeof name === 'string' && HEADER_NAME_PATTERN.test(name);
+  if (config?.includeHeaders !== undefined && config.includeHeaders !== '*' && !isHeaderNameList(config.includeHeaders)) {
+    report(entryPath('includeHeaders', config.includeHeaders, isHeaderName), 'Invalid includeHeaders. Use a list of header names or "*".', 'No headers will be captured.');
+    mergedConfig.includeHeaders = DEFAULT_CONFIG.includeHeaders;
+  }
+  if (config?.redactHeaders !== undefined && !isHeaderNameList(config.redactHeaders)) {
+    report(entryPath('redactHeaders', config.redactHeaders, isHeaderName), 'Invalid redactHeaders.', 'Using the default redacted headers.');
+    mergedConfig.redactHeaders = DEFAULT_CONFIG.redactHeaders;
+  }
+  if (mergedConfig.includeHeaders !== '*') {
+    mergedConfig.includeHeaders = mergedConfig.includeHeaders.map((name) => name.toLowerCase());
+  }
+  mergedConfig.redactHeaders = mergedConfig.redactHeaders.map((name) => name.toLowerCase());
+
+  if (config?.headerRedaction !== undefined && !HEADER_REDACTIONS.includes(config.headerRedaction)) {
+    report('headerRedaction', `Invalid headerRedaction "${String(config.headerRedaction)}".`, `Using default of "${DEFAULT_CONFIG.headerRedaction}".`);
+    mergedConfig.headerRedaction = DEFAULT_CONFIG.headerRedaction;
+  }
+
+  // Validate body capture options; content types and field names are matched in lowercase
+  if (config?.bodyContentTypes !== undefined && !isStringList(config.bodyContentTypes, CONTENT_TYPE_PATTERN)) {
+    report(entryPath('bodyContentTypes', config.bodyContentTypes, (type) => isStringList([type], CONTENT_TYPE_PATTERN)), 'Invalid bodyContentTypes. Use a list of content types such as "application/json" or "text/*".', 'Using the default content types.');
+    mergedConfig.bodyContentTypes = DEFAULT_CONFIG.bodyContentTypes;
+  }
+  if (config?.redactBodyFields !== undefined && !isStringList(config.redactBodyFields, BODY_FIELD_PATTERN)) {
+    report(entryPath('redactBodyFields', config.redactBodyFields, (field) => isStringList([field], BODY_FIELD_PATTERN)), 'Invalid redactBodyFields. Use field names or dotted paths such as "user.ssn".', 'Using the default fields.');
+    mergedConfig.redactBodyFields = DEFAULT_CONFIG.redactBodyFields;
+  }
+  mergedConfig.bodyContentTypes = mergedConfig.bodyContentTypes.map((type) => type.toLowerCase());
+  mergedConfig.redactBodyFields = mergedConfig.redactBodyFields.map((field) => field.toLowerCase());
+
+  // Validate response body options; the body is only known once the response completes
+  if (config?.captureResponseBodyWhen !== undefined && typeof config.captureResponseBodyWhen !== 'function') {
+    report('captureResponseBodyWhen', 'Invalid captureResponseBodyWhen. Use a function of the status code.', 'Capturing error responses (status >= 400).');
+    mergedConfig.captureResponseBodyWhen = DEFAULT_CONFIG.captureResponseBodyWhen;
+  }
+  if (mergedConfig.captureResponseBody && !mergedConfig.logOnResponse) {
+    report('captureResponseBody', 'captureResponseBody requires logOnResponse.', 'Response bodies will not be captured.');
+    mergedConfig.captureResponseBody = false;
+  }
+
+  // Validate severity levels
+  if (config?.levelFor !== undefined && typeof config.levelFor !== 'function') {
+    report('levelFor', 'Invalid levelFor. Use a function of the log entry.', 'Using the default levels.');
+    mergedConfig.levelFor = DEFAULT_CONFIG.levelFor;
+  }
+  if (config?.minLevel !== undefined && !LOG_LEVELS.includes(config.minLevel)) {
+    report('minLevel', `Invalid minLevel "${String(config.minLevel)}". Use one of ${LOG_LEVELS.join(', ')}.`, `Using default of "${DEFAULT_CONFIG.minLevel}".`);
+    mergedConfig.minLevel = DEFAULT_CONFIG.minLevel;
+  }
+  // Without a status, the default levels are all info
+  if (!mergedConfig.logOnResponse && mergedConfig.levelFor === DEFAULT_CONFIG.levelFor && !meetsLevel('info', mergedConfig.minLevel)) {
+    report('minLevel', `minLevel "${mergedConfig.minLevel}" requires logOnResponse or a custom levelFor.`, 'No entries will be written.');
+  }
+
+  // Validate route filters
+  for (const option of ['include', 'exclude'] as const) {
+    const value = config?.[option];
+    if (value !== undefined && !(Array.isArray(value) && value.every(isRouteFilter))) {
+      report(entryPath(option, value, isRouteFilter), `Invalid ${option}. Use globs, RegExps or { method, path } rules.`, `Ignoring ${option}.`);
+      mergedConfig[option] = DEFAULT_CONFIG[option];
+    }
+    mergedConfig[option] = mergedConfig[option].map((rule) =>
+      typeof rule === 'object' && !(rule instanceof RegExp) ? { ...rule, path: withoutStatefulFlags(rule.path) } : withoutStatefulFlags(rule)
+    );
+  }
+  if (config?.skip !== undefined && typeof config.skip !== 'function') {
+    report('skip', 'Invalid skip. Use a function of the request and response.', 'No request is skipped.');
+    mergedConfig.skip = DEFAULT_CONFIG.skip;
+  }
+
+  // Validate sampling options; errors and slow requests are only known once the response completes
+  if (config?.sampleRate !== undefined && !isRate(config.sampleRate)) {
+    report('sampleRate', `Invalid sampleRate "${String(config.sampleRate)}". Use a number from 0 to 1.`, 'Logging every request.');
+    mergedConfig.sampleRate = DEFAULT_CONFIG.sampleRate;
+  }
+  if (config?.sampleRules !== undefined && !(Array.isArray(config.sampleRules) && config.sampleRules.every(isSampleRule))) {
+    report(entryPath('sampleRules', config.sampleRules, isSampleRule), 'Invalid sampleRules. Each rule needs a rate from 0 to 1, and optionally a method and a path (string or RegExp).', 'Ignoring the rules.');
+    mergedConfig.sampleRules = DEFAULT_CONFIG.sampleRules;
+  }
+  mergedConfig.sampleRules = mergedConfig.sampleRules.map((rule) => ({ ...rule, path: withoutStatefulFlags(rule.path) }));
+  // The default alwaysLogStatus only applies with logOnResponse, so only explicit keep rules are reported
+  const sampling = mergedConfig.sampleRate < 1 || mergedConfig.sampleRules.length > 0;
+  const keepRules = (config?.alwaysLogStatus !== undefined && mergedConfig.alwaysLogStatus > 0)
+    || (config?.alwaysLogSlowerThanMs !== undefined && mergedConfig.alwaysLogSlowerThanMs > 0);
+  if (sampling && !mergedConfig.logOnResponse && keepRules) {
+    report('logOnResponse', 'alwaysLogStatus and alwaysLogSlowerThanMs require logOnResponse.', 'Errors and slow requests will be sampled like other requests.');
+  }
+
+  // Validate request ID options
+  if (config?.requestIdHeader !== undefined && !isHeaderName(config.requestIdHeader)) {
+    report('requestIdHeader', `Invalid requestIdHeader "${String(config.requestIdHeader)}".`, `Using default of "${DEFAULT_CONFIG.requestIdHeader}".`);
+    mergedConfig.requestIdHeader = DEFAULT_CONFIG.requestIdHeader;
+  }
+
+  if (config?.requestIdPattern !== undefined && !(config.requestIdPattern instanceof RegExp)) {
+    report('requestIdPattern', 'Invalid requestIdPattern.', 'Using default.');
+    mergedConfig.requestIdPattern = DEFAULT_CONFIG.requestIdPattern;
+  }
+  mergedConfig.requestIdPattern = withoutStatefulFlags(mergedConfig.requestIdPattern);
+
+  const generator = config?.requestIdGenerator;
+  if (generator !== undefined && typeof generator !== 'function' && !REQUEST_ID_GENERATORS.includes(generator)) {
+    report('requestIdGenerator', `Invalid requestIdGenerator "${String(generator)}".`, `Using default of "${DEFAULT_CONFIG.requestIdGenerator}".`);
+    mergedConfig.requestIdGenerator = DEFAULT_CONFIG.requestIdGenerator;
+  }
+
+  // Validate transports option, and the format and level of each transport
+  if (config?.transports !== undefined) {
+    if (!Array.isArray(config.transports)) {
+      report('transports', 'Invalid transports. Use a list of transports.', 'Logging to the default file.');
+    }
+    const candidates: unknown[] = Array.isArray(config.transports) ? config.transports : [];
+    candidates.forEach((transport, index) => {
+      if (!isTransport(transport)) {
+        report(`transports[${index}]`, 'Invalid transports entry. Each transport needs write, flush and close methods.', 'It is ignored.');
+        return;
+      }
+      if (transport.format !== undefined && !isValidFormat(transport.format) && !isTemplate(transport.format)) {
+        report(`transports[${index}].format`, `Invalid transport format "${String(transport.format)}".`, 'Falling back to "json".');
+      }
+      if (transport.level !== undefined && !LOG_LEVELS.includes(transport.level)) {
+        report(`transports[${index}].level`, `Invalid transport level "${String(transport.level)}".`, 'Writing every entry to the transport.');
+      }
+    });
+    mergedConfig.transports = candidates.filter(isTransport);
+  }
+
   return mergedConfig;
 }
 
+/**
+ * Receives a configuration problem, with what the logger does instead
+ * (for example 'Using default of 5.').
+ */
+type ProblemHandler = (problem: ConfigProblem, fallback: string) => void;
+
+/**
+ * Logs a configuration problem as a warning, followed by the fallback.
+ * 
+ * @param problem - The problem
+ * @param fallback - What the logger does instead
+ */
+function warnAboutProblem(problem: ConfigProblem, fallback: string): void {
+  console.warn(`${problem.message} ${fallback}`);
+}
+
+/**
+ * Returns the path of the first invalid entry of a list option, e.g.
+ * 'include[2]', or the option itself if the value is not a list.
+ * 
+ * @param option - The option name
+ * @param value - The option's value
+ * @param isValid - Checks one entry
+ * @returns Path of the problem
+ */
+function entryPath(option: string, value: unknown, isValid: (entry: unknown) => boolean): string {
+  const index = Array.isArray(value) ? value.findIndex((entry) => !isValid(entry)) : -1;
+  return index === -1 ? option : `${option}[${index}]`;
+}
+
+/**
+ * Finds the option an unknown key was probably meant to be: one that
+ * differs only in case, or by at most two edits (one for short keys).
+ * 
+ * @param key - The unknown key
+ * @returns The closest option name, if any is close enough
+ * 
+ * @example
+ * suggestOption('includeIP');  // 'includeIp'
+ * suggestOption('logfilepath'); // 'logFilePath'
+ * suggestOption('colour');     // undefined
+ */
+function suggestOption(key: string): string | undefined {
+  let best: string | undefined;
+  let bestDistance = key.length <= 5 ? 1 : 2;
+
+  for (const option of Object.keys(DEFAULT_CONFIG)) {
+    if (option.toLowerCase() === key.toLowerCase()) {
+      return option;
+    }
+    const distance = editDistance(key, option);
+    if (distance <= bestDistance) {
+      best = option;
+      bestDistance = distance - 1;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/** Characters allowed in an HTTP header name (RFC 9110 token) */
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/** A media type, where '*' stands for any characters except '/' */
+const CONTENT_TYPE_PATTERN = /^[\w.+*-]+\/[\w.+*-]+$/;
+
+/** A field name or dotted path of field names, where '*' stands for any single name */
+const BODY_FIELD_PATTERN = /^[^.]+(\.[^.]+)*$/;
+
+/**
+ * Returns a copy of a regular expression without the global and sticky
+ * flags; other values are returned unchanged.
+ * 
+ * @param rule - A redaction rule
+ * @returns The rule, safe to test() repeatedly
+ */
+function withoutStatefulFlags<T>(rule: T): T {
+  return rule instanceof RegExp && /[gy]/.test(rule.flags)
+    ? (new RegExp(rule.source, rule.flags.replace(/[gy]/g, '')) as T)
+    : rule;
+}
+
+/**
+ * Checks whether a value is a valid route filter.
+ *
+ * @param value - Candidate rule
+ * @returns True if the value is a non-empty glob, a RegExp, or an object
+ * with a method (or non-empty list of methods) and/or a path
+ */
+function isRouteFilter(value: unknown): value is RouteFilter {
+  if (typeof value === 'string') {
+    return value !== '';
+  }
+  if (value instanceof RegExp) {
+    return true;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+
+  const rule = value as Record<string, unknown>;
+  const methods = Array.isArray(rule.method) ? rule.method : [rule.method];
+  const validMethod = rule.method === undefined
+    || (methods.length > 0 && methods.every((method) => typeof method === 'string' && HEADER_NAME_PATTERN.test(method)));
+  const validPath = rule.path === undefined || (typeof rule.path === 'string' && rule.path !== '') || rule.path instanceof RegExp;
+  return validMethod && validPath && (rule.method !== undefined || rule.path !== undefined);
+}
+
+/**
+ * Checks whether a value is a sampling rate (a number from 0 to 1).
+ *
+ * @param value - Candidate rate
+ * @returns True if the value is a rate
+ */
+function isRate(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+/**
+ * Checks whether a value is a valid sampling rule.
+ *
+ * @param value - Candidate rule
+ * @returns True if the value has a rate, and a string method and a string
+ * or RegExp path where present
+ */
+function isSampleRule(value: unknown): value is SampleRule {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const rule = value as Record<string, unknown>;
+  return isRate(rule.rate)
+    && (rule.method === undefined || (typeof rule.method === 'string' && rule.method !== ''))
+    && (rule.path === undefined || typeof rule.path === 'string' || rule.path instanceof RegExp);
+}
+
+/**
+ * Checks whether a value is a valid trustedProxies option.
+ *
+ * @param value - Candidate option
+ * @returns True if the value is 'express', a boolean, a non-negative integer
+ * or a list of addresses, CIDR ranges and range names
+ */
+function isTrustedProxies(value: unknown): value is TrustedProxies {
+  return value === 'express'
+    || typeof value === 'boolean'
+    || (Number.isInteger(value) && (value as number) >= 0)
+    || (Array.isArray(value) && value.every(isProxyRange));
+}
+
+/**
+ * Checks whether a value is a list of valid HTTP header names.
+ * 
+ * @param value - Candidate header list
+ * @returns True if the value is an array of header names
+ */
+function isHeaderNameList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((name) => typeof name === 'string' && HEADER_NAME_PATTERN.test(name));
+}
+
+/**
+ * Checks whether a value is a list of strings matching a pattern.
+ * 
+ * @param value - Candidate list
+ * @param pattern - Pattern every string must match
+ * @returns True if the value is an array of matching strings
+ */
+function isStringList(value: unknown, pattern: RegExp): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && pattern.test(item));
+}
+
+/**
+ * Adds the options read from environment variables when fromEnv is set.
+ * Options given explicitly (and not undefined) take precedence over the
+ * variables.
+ * 
+ * @param config - User-provided configuration options (optional)
+ * @returns The options with those from environment variables added
+ * @throws EnvConfigError if a variable is invalid
+ */
+function withEnvConfig(config?: LoggerConfig): LoggerConfig | undefined {
+  if (!config?.fromEnv) {
+    return config;
+  }
+  // An invalid fromEnv is reported by validateAndMergeConfig
+  if (config.fromEnv !== true && typeof config.fromEnv !== 'string') {
+    return config;
+  }
+
+  return { ...loadConfigFromEnv(config.fromEnv === true ? undefined : config.fromEnv), ...definedOptions(config) };
+}
+
+/**
+ * Drops options passed as undefined, so merging them does not override
+ * defaults or environment variables.
+ * 
+ * @param config - User-provided configuration options (optional)
+ * @returns The options whose value is not undefined
+ */
+function definedOptions(config?: LoggerConfig): LoggerConfig {
+  return Object.fromEntries(Object.entries(config ?? {}).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Checks whether a value implements the Transport interface.
+ * 
+ * @param value - Candidate transport
+ * @returns True if the value has write, flush and close methods
+ */
+function isTransport(value: unknown): value is Transport {
+  const candidate = value as Partial<Transport> | null;
+  return typeof candidate === 'object' && candidate !== null
+    && typeof candidate.write === 'function'
+    && typeof candidate.flush === 'function'
+    && typeof candidate.close === 'function';
+}
+
+/**
+ * Checks a configuration without creating a logger, for example in CI.
+ * 
+ * Applies the checks createRequestLogger() makes, including unknown
+ * options, and returns every problem found instead of warning or throwing.
+ * Environment variables are not read; use loadConfigFromEnv() to check them.
+ * 
+ * @param config - The configuration to check
+ * @returns The problems found, each with its path; empty if the configuration is valid
+ * 
+ * @example
+ * // scripts/check-logging-config.ts
+ * import { validateConfig } from '../src/middleware';
+ * import { loggingConfig } from '../src/logging-config';
+ * 
+ * const problems = validateConfig(loggingConfig);
+ * for (const problem of problems) {
+ *   console.error(`${problem.path}: ${problem.message}`);
+ * }
+ * process.exit(problems.length > 0 ? 1 : 0);
+ */
+export function validateConfig(config: unknown): ConfigProblem[] {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return [{ path: '', message: 'Invalid configuration. Use an object of options.' }];
+  }
+
+  const problems: ConfigProblem[] = [];
+  validateAndMergeConfig(config as LoggerConfig, (problem) => problems.push(problem));
+  return problems;
+}
+
 /**
  * Creates a request logging middleware with the specified configuration.
  * 
  * This is the main factory function that creates and returns an Express middleware
- * function configured to log incoming HTTP requests to a file. The middleware:
- * - Captures request method, URL, timestamp, and optionally IP and User-Agent
- * - Formats log entries as JSON or text based on configuration
- * - Writes logs asynchronously to avoid blocking the event loop
+ * function configured to log incoming HTTP requests to a file (or any set of
+ * transports). The middleware:
+ * - Captures request method, URL, timestamp, and optionally IP (full,
+ *   truncated or hashed) and User-Agent
+ * - Assigns each request an ID (from the X-Request-Id header or generated),
+ *   echoes it on the response and exposes it through getRequestContext()
+ * - Optionally continues (or starts) the request's W3C trace and logs its IDs
+ * - Optionally captures request bodies, with sensitive fields redacted and
+ *   the size capped
+ * - Optionally defers the entry until the response completes, adding status,
+ *   duration, request/response sizes and (for error responses) the response body
+ * - Formats log entries as JSON, text, Common/Combined Log Format, a token
+ *   template or a custom registered format
+ * - Queues entries in memory and writes them in batches on a background
+ *   WriteStream, so next() is called without waiting for disk I/O
  * - Handles errors gracefully without crashing the application
  * - Always calls next() to continue request processing
  * 
  * @param config - Optional configuration for the logging middleware
  * @param config.logFilePath - Path to the log file (default: './logs/requests.log')
- * @param config.format - Log format: 'json' or 'text' (default: 'json')
+ * @param config.format - Log format: 'json', 'text', 'clf', 'combined', 'logfmt', 'ecs', 'w3c', a registered name, a token template or a formatter function (default: 'json')
+ * @param config.w3cFields - Columns written by the 'w3c' format (default: date time c-ip cs-method cs-uri-stem cs-uri-query sc-status sc-bytes time-taken cs(User-Agent))
  * @param config.enabled - Enable or disable logging (default: true)
+ * @param config.fromEnv - Read options from environment variables, with this prefix or 'LOG_' for true (default: false)
+ * @param config.strict - Throw a LoggerConfigError listing every configuration problem instead of warning (default: false)
  * @param config.includeIp - Include client IP address (default: false)
+ * @param config.trustedProxies - Proxies trusted to report the client address (default: 'express')
+ * @param config.ipMode - Log IP addresses 'full', 'truncate'd, 'hash'ed or 'none' (default: 'full')
+ * @param config.ipHashSecret - Secret for 'hash' keys; empty for random in-memory keys (default: '')
+ * @param config.ipHashRotationDays - Days each 'hash' key is used (default: 1)
  * @param config.includeUserAgent - Include User-Agent header (default: false)
+ * @param config.includeReferer - Include Referer header (default: false)
+ * @param config.redactQueryParams - Query parameters redacted from logged URLs (default: password, token, api_key and similar)
+ * @param config.redactPathPatterns - Detectors ('email', 'jwt', 'card', 'secret') or patterns redacting URL segments (default: all detectors)
+ * @param config.includeHeaders - Request headers to capture, or '*' for all (default: [])
+ * @param config.redactHeaders - Captured headers whose values are redacted (default: authorization, cookie, set-cookie, x-api-key, proxy-authorization)
+ * @param config.headerRedaction - 'full' ([REDACTED]) or 'partial' (Bearer ****abcd) redaction (default: 'full')
+ * @param config.captureBody - Record JSON, form and text request bodies (default: false)
+ * @param config.maxBodyBytes - Largest body logged before it is truncated (default: 4096)
+ * @param config.bodyContentTypes - Content types whose bodies are captured (default: JSON, forms and text/*)
+ * @param config.redactBodyFields - Body fields redacted, as names or dotted paths (default: password, token, creditCard and similar)
+ * @param config.requestIdHeader - Header carrying the request ID (default: 'X-Request-Id')
+ * @param config.requestIdPattern - Pattern incoming request IDs must match (default: /^[\w.:@-]{1,128}$/)
+ * @param config.requestIdGenerator - 'uuid', 'ulid' or a function generating request IDs (default: 'uuid')
+ * @param config.includeTraceContext - Read traceparent/tracestate and log trace IDs (default: false)
+ * @param config.startTrace - Start a new trace for requests without a valid traceparent (default: false)
+ * @param config.logOnResponse - Write the entry when the response completes (default: false)
+ * @param config.captureResponseBody - Record response bodies matching captureResponseBodyWhen; requires logOnResponse (default: false)
+ * @param config.maxResponseBodyBytes - Largest response body logged before it is truncated (default: 4096)
+ * @param config.captureResponseBodyWhen - Status predicate selecting the response bodies captured (default: status >= 400)
+ * @param config.levelFor - Level of each entry (default: error for 5xx and aborted requests, warn for 4xx, info otherwise)
+ * @param config.minLevel - Lowest level of entries written (default: 'debug', every entry)
+ * @param config.include - Globs, RegExps or { method, path } rules a request must match to be logged (default: [], every request)
+ * @param config.exclude - Rules whose matching requests are not logged (default: [])
+ * @param config.skip - Predicate skipping requests; called on response with logOnResponse (default: never skips)
+ * @param config.sampleRate - Rate of requests logged, from 0 to 1, decided by request ID (default: 1)
+ * @param config.sampleRules - Sampling rates by method and path; the first match applies (default: [])
+ * @param config.alwaysLogStatus - Log responses with this status or higher regardless of sampling; requires logOnResponse (default: 500)
+ * @param config.alwaysLogSlowerThanMs - Log requests slower than this regardless of sampling; requires logOnResponse (default: 0, off)
+ * @param config.flushInterval - Maximum time in ms an entry is buffered (default: 50)
+ * @param config.maxBufferSize - Buffered size that triggers an immediate flush (default: 65536)
+ * @param config.maxFileSize - Rotate the log file once it reaches this many bytes (default: 0, never)
+ * @param config.maxFiles - Number of gzip-compressed archives to keep when rotating (default: 5)
+ * @param config.rotationFrequency - Start a date-stamped file 'daily' or 'hourly' (default: 'none')
+ * @param config.retentionDays - Days of date-stamped files to keep (default: 0, forever)
+ * @param config.transports - Destinations for entries, each with its own format (default: one file)
  * 
- * @returns Express middleware function that logs incoming requests
+ * @returns Express middleware function that logs incoming requests, with
+ * `flush()` and `close()` methods for draining the buffer on shutdown, and
+ * `explain()` for debugging route filters
+ * @throws EnvConfigError if fromEnv is set and an environment variable is invalid
+ * @throws LoggerConfigError in strict mode, if the configuration has problems
  * 
  * @example
  * // Basic usage with defaults
@@ -109,6 +738,46 @@ function validateAndMergeConfig(config?: LoggerConfig): Required<LoggerConfig> {
  * }));
  * 
  * @example
+ * // Record status code, duration and sizes for each request
+ * app.use(createRequestLogger({ logOnResponse: true }));
+ * 
+ * @example
+ * // Leave out load balancer probes and static files
+ * const requestLogger = createRequestLogger({ exclude: ['/health', '/static/**'] });
+ * requestLogger.explain({ method: 'GET', url: '/health' }).reason; // 'GET /health matches exclude[0] "/health"'
+ * 
+ * @example
+ * // Log 1% of book listings, but every server error and request over 2s
+ * app.use(createRequestLogger({
+ *   logOnResponse: true,
+ *   sampleRules: [{ method: 'GET', path: '/api/books**', rate: 0.01 }],
+ *   alwaysLogSlowerThanMs: 2000
+ * }));
+ * 
+ * @example
+ * // Rotate at 10 MB, keeping requests.1.log.gz ... requests.5.log.gz
+ * app.use(createRequestLogger({ maxFileSize: 10 * 1024 * 1024, maxFiles: 5 }));
+ * 
+ * @example
+ * // One file per day (requests-2026-10-19.log), kept for two weeks
+ * app.use(createRequestLogger({ rotationFrequency: 'daily', retentionDays: 14 }));
+ * 
+ * @example
+ * // JSON on disk and readable text on the console
+ * app.use(createRequestLogger({
+ *   transports: [
+ *     new FileTransport({ logFilePath: './logs/requests.log', format: 'json' }),
+ *     new ConsoleTransport({ format: 'text' })
+ *   ]
+ * }));
+ * 
+ * @example
+ * // Drain buffered entries on shutdown
+ * const requestLogger = createRequestLogger();
+ * app.use(requestLogger);
+ * process.on('SIGTERM', () => requestLogger.close());
+ * 
+ * @example
  * // Environment-specific configuration
  * const logConfig = process.env.NODE_ENV === 'production'
  *   ? { logFilePath: '/var/log/myapp/requests.log', format: 'json' as const }
@@ -116,247 +785,412 @@ function validateAndMergeConfig(config?: LoggerConfig): Required<LoggerConfig> {
  * 
  * app.use(createRequestLogger(logConfig));
  */
-export function createRequestLogger(config?: LoggerConfig): RequestHandler {
-  // Validate and merge configuration with defaults
-  const finalConfig = validateAndMergeConfig(config);
+export function createRequestLogger(config?: LoggerConfig): RequestLogger {
+  // Validate and merge configuration with environment variables and defaults;
+  // in strict mode, every problem is collected and thrown at once
+  const problems: ConfigProblem[] = [];
+  const finalConfig = validateAndMergeConfig(withEnvConfig(config), config?.strict === true ? (problem) => problems.push(problem) : undefined);
+  if (problems.length > 0) {
+    throw new LoggerConfigError(problems);
+  }
+
+  // Without explicit transports, log to a file built from the file options
+  const transports: Transport[] = finalConfig.transports.length > 0
+    ? finalConfig.transports
+    : [new FileTransport(finalConfig)];
+
+  // Resolve (and compile) each transport's formatter once, not per request
+  const sinks = resolveSinks(transports, finalConfig);
+
+  // Truncates or hashes client IP addresses according to ipMode
+  const anonymizeIp = createIpAnonymizer(finalConfig);
+  const trustProxy = compileProxyTrust(finalConfig.trustedProxies);
+
+  // Compiles the include and exclude rules once
+  const filter = createRequestFilter(finalConfig);
+
+  // Picks the sampling rate of each request and the entries always logged
+  const sampler = createSampler(finalConfig);
+
+  // The configured middleware function
+  const middleware = (req: Request, res: Response, next: NextFunction): void => {
+    // Mark the arrival time before any logging work is done
+    const startTime = process.hrtime.bigint();
+    let context: RequestContext | undefined;
 
-  // Return the configured middleware function
-  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       // If logging is disabled, skip to next middleware
       if (!finalConfig.enabled) {
         return;
       }
 
+      // Identify the request and its trace, and echo the ID to the client
+      const trace = finalConfig.includeTraceContext ? resolveTraceContext(req, finalConfig.startTrace) : undefined;
+      context = { requestId: resolveRequestId(req, finalConfig), ...(trace ? { trace } : {}) };
+      echoRequestId(res, finalConfig.requestIdHeader, context.requestId);
+
+      // Leave out filtered requests; with logOnResponse, skip() waits for the outcome
+      if (!filter.matches(req) || (!finalConfig.logOnResponse && filter.skips(req, res))) {
+        return;
+      }
+
+      // Sample by request ID now; errors and slow requests are kept once their outcome is known
+      const sampleRate = sampler.rateFor(req);
+      const sampled = isSampled(context.requestId, sampleRate);
+      let loggedRate = sampleRate;
+      const canKeep = finalConfig.logOnResponse && (finalConfig.alwaysLogStatus > 0 || finalConfig.alwaysLogSlowerThanMs > 0);
+      if (!sampled && !canKeep) {
+        return;
+      }
+
+      // :remote-addr shows an address even without includeIp, with ipMode applied
+      if (finalConfig.ipMode !== 'full') {
+        const remoteAddress = req.socket?.remoteAddress;
+        recordLoggedAddress(req, remoteAddress ? anonymizeIp(remoteAddress) : undefined);
+      }
+
       // Capture request data
-      const logEntry = captureRequestData(req, finalConfig);
-      
-      // Select the appropriate formatter based on configuration
-      const formatter = selectFormatter(finalConfig.format);
-      
-      // Format the log entry
-      const formattedEntry = formatter(logEntry);
-      
-      // Write the formatted entry to the log file asynchronously
-      await appendToLogFile(finalConfig.logFilePath, formattedEntry);
-      
+      const logEntry = captureRequestData(req, finalConfig, context, anonymizeIp, trustProxy);
+      const bodyCapture = finalConfig.captureBody ? startBodyCapture(req, finalConfig) : undefined;
+
+      // With a body to capture, the entry also waits until the body has been read
+      const writeEntry = (): void => {
+        addCapturedBody(req, logEntry, 'body', bodyCapture?.value);
+        if (sampler.enabled) {
+          logEntry.sampleRate = loggedRate;
+        }
+        logEntry.level = levelOf(req, logEntry, finalConfig.levelFor);
+        if (!meetsLevel(logEntry.level, finalConfig.minLevel)) {
+          return;
+        }
+        writeLogEntry(req, res, logEntry, sinks);
+      };
+      const writeWhenReady = bodyCapture ? () => bodyCapture.onEnd(writeEntry) : writeEntry;
+
+      // Deferred mode: write the entry once the response outcome is known
+      if (finalConfig.logOnResponse) {
+        const getResponseBytes = countResponseBytes(res);
+        const responseBody = finalConfig.captureResponseBody ? teeResponseBody(res, finalConfig) : undefined;
+
+        logEntry.requestBytes = measureRequestBytes(req);
+
+        onResponseComplete(res, (aborted) => {
+          applyResponseOutcome(logEntry, {
+            status: res.statusCode,
+            durationMs: elapsedMs(startTime),
+            responseBytes: getResponseBytes(),
+            aborted,
+          });
+          if (filter.skips(req, res)) {
+            return;
+          }
+          const kept = sampler.mustKeep(logEntry);
+          if (!sampled && !kept) {
+            return;
+          }
+          if (kept) {
+            loggedRate = 1;
+          }
+
+          // A compressed response body is decompressed before the entry is written
+          if (responseBody) {
+            responseBody.onReady(() => {
+              addCapturedBody(req, logEntry, 'responseBody', responseBody.value);
+              writeWhenReady();
+            });
+          } else {
+            writeWhenReady();
+          }
+        });
+        return;
+      }
+
+      // Hand the entry to the transports immediately; they write in the background
+      writeWhenReady();
     } catch (error) {
-      // Log error with descriptive message but don't throw
       // Logging failures should never crash the application
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const errorCode = error instanceof Error && 'code' in error ? (error as NodeJS.ErrnoException).code : 'UNKNOWN';
-      
-      console.error(
-        `[Request Logger] Failed to log request ${req.method} ${req.url}: ${errorMessage} (Error code: ${errorCode})`
-      );
+      reportLoggingError(req, error);
     } finally {
       // Always call next() to continue request processing
-      // This ensures the request continues even if logging fails
-      next();
+      // This ensures the request continues even if logging fails.
+      // The rest of the chain runs inside the request context, so handlers
+      // can read it with getRequestContext().
+      if (context) {
+        runWithRequestContext(context, next);
+      } else {
+        next();
+      }
     }
   };
+
+  return Object.assign(middleware, {
+    flush: async () => {
+      await Promise.all(transports.map((transport) => transport.flush()));
+    },
+    close: async () => {
+      await Promise.all(transports.map((transport) => transport.close()));
+    },
+    explain: filter.explain,
+  });
 }
 
 /**
- * Captures request data from the Express request object.
- * 
- * Extracts relevant information from the incoming HTTP request including:
- * - Timestamp (current time in ISO 8601 format)
- * - HTTP method (GET, POST, PUT, DELETE, etc.)
- * - Request URL (full path with query parameters)
- * - Client IP address (if enabled, attempts to extract from X-Forwarded-For header)
- * - User-Agent header (if enabled)
+ * A transport paired with the formatter for its format.
+ */
+interface Sink {
+  transport: Transport;
+  formatter: LogFormatter;
+
+  /** Lowest level written to the transport; undefined for every entry */
+  level?: LogLevel;
+}
+
+/**
+ * Resolves the formatter of each transport.
  * 
- * @param req - Express request object containing request information
- * @param config - Middleware configuration specifying which fields to capture
- * @returns LogEntry object with captured request data
+ * Transports without a format use the logger's format. Transports sharing
+ * a format share one formatter, so each entry is formatted once per format.
+ * Transports whose formatter has a header are given it. Invalid transport
+ * levels are ignored.
  * 
- * @example
- * const logEntry = captureRequestData(req, config);
- * // Returns: { timestamp: '2025-11-10T17:19:12.964Z', method: 'GET', url: '/api/books', ip: '192.168.1.100' }
+ * @param transports - Destinations for entries
+ * @param config - Validated configuration: the logger's format, the 'w3c' columns and header redaction
+ * @returns Each transport with its formatter
  */
-function captureRequestData(req: Request, config: Required<LoggerConfig>): LogEntry {
-  // Create base log entry with required fields
-  const logEntry: LogEntry = {
-    timestamp: new Date().toISOString(),
-    method: req.method,
-    url: req.originalUrl || req.url,
-  };
+function resolveSinks(transports: Transport[], config: Required<LoggerConfig>): Sink[] {
+  const formatters = new Map<LogFormat | LogFormatter, LogFormatter>();
 
-  // Optionally capture IP address
-  if (config.includeIp) {
-    // Try to get real IP from proxy headers, fallback to socket IP
-    logEntry.ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() 
-      || req.socket.remoteAddress 
-      || 'unknown';
-  }
+  return transports.map((transport) => {
+    const format = transport.format ?? config.format;
+    let formatter = formatters.get(format);
 
-  // Optionally capture User-Agent header
-  if (config.includeUserAgent) {
-    logEntry.userAgent = req.headers['user-agent'] || 'unknown';
-  }
+    if (!formatter) {
+      formatter = resolveFormatter(format, config);
+      formatters.set(format, formatter);
+    }
 
-  return logEntry;
+    if (formatter.header) {
+      transport.setHeader?.(formatter.header);
+    }
+
+    const level = transport.level !== undefined && LOG_LEVELS.includes(transport.level) ? transport.level : undefined;
+    return { transport, formatter, level };
+  });
 }
 
 /**
- * Formats a log entry as a JSON string with newline.
- * 
- * Converts the LogEntry object to a compact JSON string (no pretty-printing)
- * and appends a newline character for proper file appending.
+ * Resolves a format option to a formatter function: a registered format,
+ * a compiled token template, or the formatter function itself. The 'w3c'
+ * format is built with the configured columns; templates and 'w3c' redact
+ * the headers they print as configured.
  * 
- * @param logEntry - The log entry to format
- * @returns JSON string representation with newline character
- * 
- * @example
- * const formatted = formatAsJson({ timestamp: '2025-11-10T17:19:12.964Z', method: 'GET', url: '/api/books' });
- * // Returns: '{"timestamp":"2025-11-10T17:19:12.964Z","method":"GET","url":"/api/books"}\n'
+ * @param format - Format name, template or formatter function
+ * @param config - Validated configuration
+ * @returns Formatter function
  */
-function formatAsJson(logEntry: LogEntry): string {
-  return JSON.stringify(logEntry) + '\n';
+function resolveFormatter(format: LogFormat | LogFormatter, config: Required<LoggerConfig>): LogFormatter {
+  if (format === 'w3c') {
+    return createW3cFormatter(config.w3cFields, config);
+  }
+
+  if (typeof format === 'string' && !isValidFormat(format) && isTemplate(format)) {
+    return compileTemplate(format, config);
+  }
+
+  return selectFormatter(format);
 }
 
 /**
- * Formats a log entry as human-readable text with newline.
- * 
- * Creates a text string in the format: [timestamp] METHOD /url - ip - userAgent
- * Optional fields (ip, userAgent) are only included if present in the log entry.
+ * Formats a log entry for each transport and hands it over.
  * 
- * @param logEntry - The log entry to format
- * @returns Text string in format: [timestamp] METHOD /url - ip - userAgent
+ * The entry is formatted once per distinct formatter and skipped for
+ * transports whose level it does not meet. Failures are reported
+ * to the console and swallowed per transport, so one failing transport
+ * neither affects the others nor fails the request. Write failures inside a
+ * transport are reported by the transport itself.
  * 
- * @example
- * const formatted = formatAsText({ timestamp: '2025-11-10T17:19:12.964Z', method: 'GET', url: '/api/books', ip: '192.168.1.100' });
- * // Returns: '[2025-11-10T17:19:12.964Z] GET /api/books - 192.168.1.100\n'
+ * @param req - The request being logged (used in error messages and passed to formatters)
+ * @param res - The response for the request (passed to formatters)
+ * @param logEntry - The captured log entry
+ * @param sinks - Destinations for the entry, with their formatters
  */
-function formatAsText(logEntry: LogEntry): string {
-  let text = `[${logEntry.timestamp}] ${logEntry.method} ${logEntry.url}`;
-  
-  if (logEntry.ip) {
-    text += ` - ${logEntry.ip}`;
-  }
-  
-  if (logEntry.userAgent) {
-    text += ` - ${logEntry.userAgent}`;
+function writeLogEntry(req: Request, res: Response, logEntry: LogEntry, sinks: Sink[]): void {
+  const formatted = new Map<LogFormatter, string>();
+
+  for (const { transport, formatter, level } of sinks) {
+    if (level && logEntry.level && !meetsLevel(logEntry.level, level)) {
+      continue;
+    }
+
+    try {
+      let output = formatted.get(formatter);
+
+      if (output === undefined) {
+        output = formatter(logEntry, { req, res });
+        formatted.set(formatter, output);
+      }
+
+      transport.write(logEntry, output);
+    } catch (error) {
+      // Log error with descriptive message but don't throw
+      // Logging failures should never crash the application
+      reportLoggingError(req, error);
+    }
   }
-  
-  return text + '\n';
 }
 
 /**
- * Selects the appropriate formatter based on configuration.
- * 
- * Returns the formatter function that matches the requested format.
- * Defaults to JSON formatter for any invalid format values.
- * 
- * @param format - The desired log format ('json' or 'text')
- * @returns Formatter function that converts LogEntry to string
+ * Determines the level of an entry with levelFor. A levelFor that throws or
+ * returns an unknown level is reported, and the default level is used.
  * 
- * @example
- * const formatter = selectFormatter('json');
- * const formatted = formatter(logEntry);
+ * @param req - The request being logged (used in error messages)
+ * @param logEntry - The entry, with its response outcome when logging on response
+ * @param levelFor - The configured level function
+ * @returns The entry's level
  */
-function selectFormatter(format: 'json' | 'text'): (logEntry: LogEntry) => string {
-  if (format === 'text') {
-    return formatAsText;
+function levelOf(req: Request, logEntry: LogEntry, levelFor: (entry: LogEntry) => LogLevel): LogLevel {
+  try {
+    const level = levelFor(logEntry);
+    if (LOG_LEVELS.includes(level)) {
+      return level;
+    }
+    console.error(`[Request Logger] levelFor returned an unknown level for ${req.method} ${req.url}: ${String(level)}`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[Request Logger] levelFor failed for ${req.method} ${req.url}: ${errorMessage}`);
   }
-  
-  // Default to JSON for any other value (including invalid ones)
-  return formatAsJson;
+  return defaultLevelFor(logEntry);
 }
 
 /**
- * Ensures the log directory exists, creating it recursively if necessary.
+ * Adds a captured request or response body to a log entry. Failures are
+ * reported and the entry is written without the body.
  * 
- * Extracts the directory path from the log file path and creates all necessary
- * parent directories. Handles common file system errors with descriptive messages:
- * - EEXIST: Directory already exists (no action needed)
- * - EACCES: Permission denied
- * - ENOSPC: No space left on device
- * 
- * @param logFilePath - Full path to the log file
- * @throws Error if directory creation fails with specific error handling
- * 
- * @example
- * await ensureLogDirectory('./logs/requests.log');
- * // Creates './logs' directory if it doesn't exist
+ * @param req - The request being logged
+ * @param logEntry - The entry to add the body to
+ * @param field - 'body' for the request body, 'responseBody' for the response body
+ * @param readBody - Returns the captured body, if the body is captured
  */
-async function ensureLogDirectory(logFilePath: string): Promise<void> {
-  const logDir = path.dirname(logFilePath);
-  
+function addCapturedBody(req: Request, logEntry: LogEntry, field: 'body' | 'responseBody', readBody: (() => unknown) | undefined): void {
   try {
-    // Create directory recursively if it doesn't exist
-    await fs.mkdir(logDir, { recursive: true });
-  } catch (error) {
-    const nodeError = error as NodeJS.ErrnoException;
-    
-    // EEXIST error means directory already exists - this is fine
-    if (nodeError.code === 'EEXIST') {
-      // Directory already exists, no action needed
-      return;
+    const body = readBody?.();
+    if (body !== undefined) {
+      logEntry[field] = body;
     }
-    
-    // Handle specific file system errors with descriptive messages
-    if (nodeError.code === 'EACCES') {
-      throw new Error(`Permission denied: Cannot create log directory at ${logDir}. Check file system permissions.`);
-    }
-    
-    if (nodeError.code === 'ENOSPC') {
-      throw new Error(`No space left on device: Cannot create log directory at ${logDir}.`);
-    }
-    
-    // Re-throw other errors with enhanced context
-    throw new Error(`Failed to create log directory at ${logDir}: ${nodeError.message}`);
+  } catch (error) {
+    reportLoggingError(req, error);
   }
 }
 
 /**
- * Appends a formatted log entry to the log file asynchronously.
+ * Reports a logging failure to the console with the request and error code.
+ * 
+ * @param req - The request that could not be logged
+ * @param error - The error raised while capturing or formatting the entry
+ */
+function reportLoggingError(req: Request, error: unknown): void {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const errorCode = error instanceof Error && 'code' in error ? (error as NodeJS.ErrnoException).code : 'UNKNOWN';
+  
+  console.error(
+    `[Request Logger] Failed to log request ${req.method} ${req.url}: ${errorMessage} (Error code: ${errorCode})`
+  );
+}
+
+/**
+ * Sets the request ID header on the response, unless the headers are
+ * already sent (or the response cannot carry headers).
  * 
- * This function:
- * 1. Ensures the log directory exists (creates it if necessary)
- * 2. Appends the formatted entry to the log file (creates file if it doesn't exist)
- * 3. Uses asynchronous file operations to avoid blocking the event loop
- * 4. Handles specific file system errors with descriptive messages
+ * @param res - The response for the request
+ * @param header - Request ID header name
+ * @param requestId - The request's ID
+ */
+function echoRequestId(res: Response, header: string, requestId: string): void {
+  if (typeof res.setHeader === 'function' && !res.headersSent) {
+    res.setHeader(header, requestId);
+  }
+}
+
+/**
+ * Captures request data from the Express request object.
  * 
- * Common errors handled:
- * - ENOENT: File or directory doesn't exist
- * - EACCES: Permission denied
- * - ENOSPC: No space left on device
+ * Extracts relevant information from the incoming HTTP request including:
+ * - Timestamp (current time in ISO 8601 format)
+ * - HTTP method (GET, POST, PUT, DELETE, etc.)
+ * - Request URL (full path with query parameters, secrets and personal data redacted)
+ * - Request ID and trace IDs (from the request context)
+ * - Client IP address and forwarding path (if enabled, resolved through trusted
+ *   proxies; truncated or hashed according to ipMode)
+ * - User-Agent header (if enabled)
+ * - Referer header (if enabled and present)
+ * - Selected request headers, with credentials redacted (if includeHeaders is set)
  * 
- * @param logFilePath - Path to the log file
- * @param formattedEntry - The formatted log entry string to append
- * @returns Promise that resolves when the write is complete
- * @throws Error with specific messages for different file system errors
+ * @param req - Express request object containing request information
+ * @param config - Middleware configuration specifying which fields to capture
+ * @param context - The request's context, holding its ID and trace
+ * @param anonymizeIp - Applies ipMode to the client IP address
+ * @param trustProxy - Decides which addresses are trusted proxies
+ * @returns LogEntry object with captured request data
  * 
  * @example
- * await appendToLogFile('./logs/requests.log', '{"timestamp":"2025-11-10T17:19:12.964Z","method":"GET","url":"/api/books"}\n');
+ * const logEntry = captureRequestData(req, config, { requestId: '9b2c4f8e-3d1a-4c6b-8f2e-7a5d1c0b9e4f' }, (ip) => ip, () => false);
+ * // Returns: { timestamp: '2025-11-10T17:19:12.964Z', method: 'GET', url: '/api/books', requestId: '9b2c4f8e-3d1a-4c6b-8f2e-7a5d1c0b9e4f', ip: '192.168.1.100' }
  */
-async function appendToLogFile(logFilePath: string, formattedEntry: string): Promise<void> {
-  try {
-    // Ensure the log directory exists before writing
-    await ensureLogDirectory(logFilePath);
-    
-    // Append the log entry to the file (creates file if it doesn't exist)
-    await fs.appendFile(logFilePath, formattedEntry, 'utf8');
-  } catch (error) {
-    const nodeError = error as NodeJS.ErrnoException;
-    
-    // Handle specific file system errors
-    if (nodeError.code === 'ENOENT') {
-      // This shouldn't happen after ensureLogDirectory, but handle it anyway
-      throw new Error(`Log file path does not exist: ${logFilePath}. Failed to create directory structure.`);
+function captureRequestData(
+  req: Request,
+  config: Required<LoggerConfig>,
+  context: RequestContext,
+  anonymizeIp: (ip: string) => string | undefined,
+  trustProxy: ProxyTrust
+): LogEntry {
+  // Create base log entry with required fields
+  const logEntry: LogEntry = {
+    timestamp: new Date().toISOString(),
+    method: req.method,
+    url: redactUrl(req.originalUrl || req.url, config),
+    requestId: context.requestId,
+  };
+
+  // Add the trace IDs when the request has a trace
+  if (context.trace) {
+    logEntry.traceId = context.trace.traceId;
+    logEntry.spanId = context.trace.spanId;
+    if (context.trace.parentSpanId) {
+      logEntry.parentSpanId = context.trace.parentSpanId;
     }
-    
-    if (nodeError.code === 'EACCES') {
-      throw new Error(`Permission denied: Cannot write to log file at ${logFilePath}. Check file system permissions.`);
+    logEntry.traceFlags = context.trace.traceFlags;
+  }
+
+  // Optionally capture IP address
+  if (config.includeIp) {
+    // Take the client address forwarded by trusted proxies, else the socket's
+    const client = resolveClientAddress(req, trustProxy);
+    const ip = anonymizeIp(client.ip);
+    if (ip !== undefined) {
+      logEntry.ip = ip;
+      if (client.forwardedFor) {
+        logEntry.forwardedFor = client.forwardedFor.map((address) => anonymizeIp(address) as string);
+      }
     }
-    
-    if (nodeError.code === 'ENOSPC') {
-      throw new Error(`No space left on device: Cannot write to log file at ${logFilePath}.`);
+  }
+
+  // Optionally capture User-Agent header
+  if (config.includeUserAgent) {
+    logEntry.userAgent = loggedHeaderValue('user-agent', req.headers['user-agent'], config) || 'unknown';
+  }
+
+  // Optionally capture Referer header
+  if (config.includeReferer && req.headers.referer) {
+    logEntry.referer = loggedHeaderValue('referer', req.headers.referer, config);
+  }
+
+  // Optionally capture request headers, redacting credentials
+  if (config.includeHeaders === '*' || config.includeHeaders.length > 0) {
+    const headers = captureHeaders(req, config);
+    if (headers) {
+      logEntry.headers = headers;
     }
-    
-    // Generic error with fallback logging to console
-    throw new Error(`Failed to write to log file at ${logFilePath}: ${nodeError.message || String(error)}`);
   }
+
+  return logEntry;
 }
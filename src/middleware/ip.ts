@@ -0,0 +1,457 @@
+/**
+ * Client IP Addresses
+ *
+ * Resolves the client address of proxied requests from the forwarding
+ * headers of trusted proxies, anonymizes (truncates) or pseudonymizes
+ * (hashes) client IP addresses before they are logged, and remembers the
+ * address logged for each request so formats that show it without
+ * includeIp apply the same mode.
+ *
+ * @module middleware/ip
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { Request } from 'express';
+import { BlockList, isIPv4, isIPv6 } from 'net';
+import { IpMode, TrustedProxies } from './types';
+
+/** Length of a hashed address, in hex characters (64 bits) */
+const HASH_LENGTH = 16;
+
+/** Milliseconds in a day */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Addresses logged for requests by the middleware, after ipMode is applied
+ * (undefined when the mode is 'none').
+ */
+const loggedAddresses = new WeakMap<object, string | undefined>();
+
+/**
+ * Named address ranges accepted in trustedProxies, as in Express's
+ * 'trust proxy' setting.
+ */
+const PROXY_RANGES: Readonly<Record<string, readonly string[]>> = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+};
+
+/**
+ * Decides whether an address on the path of a request is a trusted proxy.
+ * Hop 0 is the socket peer, hop 1 the address it forwarded for, and so on.
+ */
+export type ProxyTrust = (address: string, hop: number, req: Request) => boolean;
+
+/**
+ * The client address of a request, and the path it took.
+ */
+export interface ClientAddress {
+  /** The client address: the first untrusted address from the right */
+  ip: string;
+
+  /**
+   * Every address on the path, client first and the socket peer last;
+   * undefined when the request had no forwarding header
+   */
+  forwardedFor?: string[];
+}
+
+/**
+ * Options for createIpAnonymizer.
+ */
+export interface IpAnonymizerOptions {
+  /** How addresses are logged */
+  ipMode: IpMode;
+
+  /** Secret the hashing keys are derived from; empty for random keys */
+  ipHashSecret: string;
+
+  /** Days each hashing key is used */
+  ipHashRotationDays: number;
+}
+
+/**
+ * Creates a function applying ipMode to client IP addresses.
+ *
+ * - 'full': addresses are logged as they are
+ * - 'truncate': see truncateIp()
+ * - 'hash': see createIpHasher()
+ * - 'none': nothing is logged
+ *
+ * Values that are not IP addresses are logged as 'unknown' by 'truncate'
+ * and 'hash'.
+ *
+ * @param options - Mode and hashing options
+ * @param now - Clock used to select the hashing key (for tests)
+ * @returns Function returning the address to log, or undefined for 'none'
+ *
+ * @example
+ * const anonymize = createIpAnonymizer({ ipMode: 'truncate', ipHashSecret: '', ipHashRotationDays: 1 });
+ * anonymize('203.0.113.42'); // '203.0.113.0'
+ */
+export function createIpAnonymizer(options: IpAnonymizerOptions, now: () => number = Date.now): (ip: string) => string | undefined {
+  switch (options.ipMode) {
+    case 'none':
+      return () => undefined;
+    case 'truncate':
+      return (ip) => truncateIp(ip) ?? 'unknown';
+    case 'hash': {
+      const hash = createIpHasher(options.ipHashSecret, options.ipHashRotationDays, now);
+      return (ip) => (canonicalIp(ip) === undefined ? 'unknown' : hash(ip));
+    }
+    default:
+      return (ip) => ip;
+  }
+}
+
+/**
+ * Truncates an IP address to its network: the last octet of an IPv4
+ * address is zeroed and an IPv6 address keeps its /48 prefix. IPv4-mapped
+ * IPv6 addresses are truncated as IPv4 and keep their '::ffff:' prefix.
+ *
+ * @param ip - IP address
+ * @returns The truncated address, or undefined if the value is not an IP address
+ *
+ * @example
+ * truncateIp('203.0.113.42');              // '203.0.113.0'
+ * truncateIp('2001:db8:85a3:8d3:1319::7'); // '2001:db8:85a3::'
+ * truncateIp('::ffff:1.2.3.4');            // '::ffff:1.2.3.0'
+ */
+export function truncateIp(ip: string): string | undefined {
+  const address = ip.split('%')[0];
+
+  if (isIPv4(address)) {
+    return address.replace(/\.\d+$/, '.0');
+  }
+
+  const mapped = mappedIpv4(address);
+  if (mapped) {
+    return `::ffff:${truncateIp(mapped)}`;
+  }
+
+  if (isIPv6(address)) {
+    const hextets = expandIpv6(address).slice(0, 3).map((hextet) => hextet.replace(/^0+(?=.)/, ''));
+    return `${hextets.join(':')}::`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Creates a keyed hash (HMAC-SHA256) for IP addresses.
+ *
+ * The same address hashes to the same value within a window of
+ * rotationDays days (UTC), so a client's requests can be correlated, and
+ * to an unrelated value in the next window. Addresses are hashed in
+ * canonical form: IPv4-mapped IPv6 addresses as IPv4, IPv6 addresses
+ * fully expanded.
+ *
+ * Without a secret, each window's key is random and only held in memory,
+ * so once the window is over nobody can recompute its hashes, and
+ * different processes hash differently. With a secret, the keys are
+ * derived from it and the window number, so processes sharing the secret
+ * agree; anyone holding the secret can recompute the hashes, including
+ * by trying every IPv4 address, so keep it out of the logs' reach.
+ *
+ * @param secret - Secret the keys are derived from, or '' for random keys
+ * @param rotationDays - Days each key is used
+ * @param now - Clock used to select the key (for tests)
+ * @returns Function returning 16 hex characters for an address
+ *
+ * @example
+ * const hash = createIpHasher('', 1);
+ * hash('1.2.3.4') === hash('::ffff:1.2.3.4'); // true
+ */
+export function createIpHasher(secret: string, rotationDays: number, now: () => number = Date.now): (ip: string) => string {
+  const windowMs = rotationDays * DAY_MS;
+  let currentWindow: number | undefined;
+  let key = Buffer.alloc(0);
+
+  return (ip) => {
+    const window = Math.floor(now() / windowMs);
+    if (window !== currentWindow) {
+      currentWindow = window;
+      key = secret ? createHmac('sha256', secret).update(`ip-hash-window:${window}`).digest() : randomBytes(32);
+    }
+
+    return createHmac('sha256', key).update(canonicalIp(ip) ?? ip).digest('hex').slice(0, HASH_LENGTH);
+  };
+}
+
+/**
+ * Checks an entry of a trustedProxies list: an IP address, a CIDR range
+ * ('10.0.0.0/8', 'fd00::/8') or one of 'loopback', 'linklocal' and
+ * 'uniquelocal'.
+ *
+ * @param value - The entry
+ * @returns True if the entry is valid
+ *
+ * @example
+ * isProxyRange('10.0.0.0/8'); // true
+ * isProxyRange('10.0.0.0/33'); // false
+ */
+export function isProxyRange(value: unknown): value is string {
+  return typeof value === 'string' && (value.toLowerCase() in PROXY_RANGES || parseRange(value) !== undefined);
+}
+
+/**
+ * Compiles the trustedProxies option into a trust check.
+ *
+ * - 'express': Express's 'trust proxy' setting for the request's app
+ *   (nothing is trusted outside Express, or when the setting is off)
+ * - true / false: every address / no address is a trusted proxy
+ * - a number: that many hops from the server are trusted proxies
+ * - a list of addresses, CIDR ranges and range names (see isProxyRange())
+ *
+ * @param trustedProxies - The option, already validated
+ * @returns The trust check
+ *
+ * @example
+ * const trust = compileProxyTrust(['loopback', '10.0.0.0/8']);
+ * trust('10.1.2.3', 0, req); // true
+ */
+export function compileProxyTrust(trustedProxies: TrustedProxies): ProxyTrust {
+  if (trustedProxies === 'express') {
+    return (address, hop, req) => {
+      const trust = req.app?.get('trust proxy fn');
+      return typeof trust === 'function' && Boolean(trust(address, hop));
+    };
+  }
+  if (typeof trustedProxies === 'boolean') {
+    return () => trustedProxies;
+  }
+  if (typeof trustedProxies === 'number') {
+    return (address, hop) => hop < trustedProxies;
+  }
+
+  const ranges = new BlockList();
+  for (const range of trustedProxies.flatMap((entry) => PROXY_RANGES[entry.toLowerCase()] ?? [entry])) {
+    const parsed = parseRange(range);
+    if (parsed) {
+      ranges.addSubnet(parsed.address, parsed.prefix, parsed.family);
+    }
+  }
+
+  return (address) => {
+    const canonical = canonicalIp(address);
+    return canonical !== undefined && ranges.check(canonical, isIPv4(canonical) ? 'ipv4' : 'ipv6');
+  };
+}
+
+/**
+ * Resolves the client address of a request.
+ *
+ * The forwarding header (Forwarded, else X-Forwarded-For, else X-Real-IP)
+ * is walked from the right, starting at the socket peer: each trusted
+ * proxy vouches for the address to its left, and the first address that is
+ * not a trusted proxy is the client. Spoofed entries a client puts at the
+ * left of the header are never reached unless every proxy after them is
+ * trusted. Bracketed IPv6 addresses and ports ('[2001:db8::17]:4711',
+ * '192.0.2.60:8080') are reduced to the address.
+ *
+ * @param req - The request
+ * @param trust - Trust check from compileProxyTrust()
+ * @returns The client address, and the path when the request was forwarded
+ *
+ * @example
+ * // Socket peer 10.0.0.1, X-Forwarded-For: 198.51.100.9, 203.0.113.7, 10.0.0.2
+ * resolveClientAddress(req, compileProxyTrust(['10.0.0.0/8']));
+ * // { ip: '203.0.113.7', forwardedFor: ['198.51.100.9', '203.0.113.7', '10.0.0.2', '10.0.0.1'] }
+ */
+export function resolveClientAddress(req: Request, trust: ProxyTrust): ClientAddress {
+  const peer = req.socket?.remoteAddress || 'unknown';
+  const forwarded = forwardedAddresses(req.headers ?? {});
+  if (forwarded.length === 0) {
+    return { ip: peer };
+  }
+
+  const path = [...forwarded, peer];
+  let index = path.length - 1;
+  while (index > 0 && trust(path[index], path.length - 1 - index, req)) {
+    index--;
+  }
+  return { ip: path[index], forwardedFor: path };
+}
+
+/**
+ * Records the client address logged for a request, after ipMode is applied.
+ *
+ * @param req - The request
+ * @param ip - The address to log, or undefined to log none
+ */
+export function recordLoggedAddress(req: object, ip: string | undefined): void {
+  loggedAddresses.set(req, ip);
+}
+
+/**
+ * Returns the client address to show for a request in the :remote-addr
+ * token, which shows one even without includeIp: the address recorded by
+ * the middleware, or the socket address when none was recorded.
+ *
+ * @param req - The request
+ * @returns The address, or undefined
+ */
+export function loggedAddress(req: { socket?: { remoteAddress?: string } } | undefined): string | undefined {
+  if (!req) {
+    return undefined;
+  }
+  return loggedAddresses.has(req) ? loggedAddresses.get(req) : req.socket?.remoteAddress;
+}
+
+/**
+ * Reads the addresses of the first forwarding header present, in order
+ * (client first).
+ */
+function forwardedAddresses(headers: Request['headers']): string[] {
+  const forwarded = headerText(headers.forwarded);
+  if (forwarded) {
+    // Elements without a for= parameter are hops of unknown address
+    return splitOutside(forwarded, ',')
+      .filter((element) => element.trim() !== '')
+      .map((element) => {
+        const parameter = splitOutside(element, ';').map((pair) => pair.trim()).find((pair) => /^for=/i.test(pair));
+        return parameter ? normalizeAddress(unquote(parameter.slice(4))) : 'unknown';
+      });
+  }
+
+  const list = headerText(headers['x-forwarded-for']) || headerText(headers['x-real-ip']);
+  return list ? list.split(',').map((value) => value.trim()).filter(Boolean).map(normalizeAddress) : [];
+}
+
+/**
+ * Reads a request header that may have been sent several times.
+ */
+function headerText(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Splits a header value on a separator, ignoring separators inside quoted strings.
+ */
+function splitOutside(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (quoted && char === '\\') {
+      current += char + (value[index + 1] ?? '');
+      index++;
+      continue;
+    }
+    if (char === '"') {
+      quoted = !quoted;
+    }
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Removes the quotes and escapes of a quoted string.
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+    ? trimmed.slice(1, -1).replace(/\\(.)/g, '$1')
+    : trimmed;
+}
+
+/**
+ * Strips brackets and ports from a forwarded address: '[2001:db8::17]:4711'
+ * becomes '2001:db8::17' and '192.0.2.60:8080' becomes '192.0.2.60'.
+ * Other values ('unknown', obfuscated identifiers such as '_hidden') are
+ * kept as they are.
+ */
+function normalizeAddress(value: string): string {
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(value);
+  if (bracketed) {
+    return bracketed[1];
+  }
+  const withPort = /^(\d+\.\d+\.\d+\.\d+):\d+$/.exec(value);
+  return withPort ? withPort[1] : value;
+}
+
+/**
+ * Parses an IP address or CIDR range, with IPv4-mapped IPv6 addresses as IPv4.
+ */
+function parseRange(range: string): { address: string; prefix: number; family: 'ipv4' | 'ipv6' } | undefined {
+  const [text, prefixText, ...rest] = range.split('/');
+  const address = canonicalIp(text);
+  if (address === undefined || rest.length > 0 || text.includes('%')) {
+    return undefined;
+  }
+
+  const family = isIPv4(address) ? 'ipv4' : 'ipv6';
+  const maxPrefix = family === 'ipv4' ? 32 : 128;
+  // A mapped range's prefix counts the 96 bits of its ::ffff: part
+  const offset = family === 'ipv4' && !isIPv4(text) ? 96 : 0;
+  const prefix = prefixText === undefined ? maxPrefix : /^\d{1,3}$/.test(prefixText) ? Number(prefixText) - offset : NaN;
+  return prefix >= 0 && prefix <= maxPrefix ? { address, prefix, family } : undefined;
+}
+
+/**
+ * Returns the canonical form of an IP address: IPv4 for IPv4 and
+ * IPv4-mapped addresses, fully expanded lowercase IPv6 otherwise.
+ */
+function canonicalIp(ip: string): string | undefined {
+  const address = ip.split('%')[0];
+
+  if (isIPv4(address)) {
+    return address;
+  }
+  const mapped = mappedIpv4(address);
+  if (mapped) {
+    return mapped;
+  }
+  return isIPv6(address) ? expandIpv6(address).join(':') : undefined;
+}
+
+/**
+ * Returns the IPv4 address inside an IPv4-mapped IPv6 address
+ * (::ffff:1.2.3.4 or ::ffff:102:304), or undefined.
+ */
+function mappedIpv4(address: string): string | undefined {
+  if (!isIPv6(address)) {
+    return undefined;
+  }
+
+  const hextets = expandIpv6(address);
+  if (hextets.slice(0, 5).some((hextet) => hextet !== '0000') || hextets[5] !== 'ffff') {
+    return undefined;
+  }
+
+  const high = Number.parseInt(hextets[6], 16);
+  const low = Number.parseInt(hextets[7], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/**
+ * Expands a valid IPv6 address into eight lowercase four-digit hextets.
+ * A trailing dotted IPv4 part counts as two hextets.
+ */
+function expandIpv6(address: string): string[] {
+  let text = address.toLowerCase();
+
+  // Convert a trailing dotted IPv4 part to two hextets
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.includes('::') ? text.split('::') : [text, undefined];
+  const headParts = head ? head.split(':') : [];
+  const tailParts = tail ? tail.split(':') : [];
+  const missing = tail === undefined ? 0 : 8 - headParts.length - tailParts.length;
+
+  return [...headParts, ...Array<string>(missing).fill('0'), ...tailParts].map((hextet) => hextet.padStart(4, '0'));
+}
@@ -0,0 +1,50 @@
+/**
+ * Severity Levels
+ *
+ * Classifies log entries as debug, info, warn or error from their
+ * response outcome, and compares levels against minimum thresholds.
+ *
+ * @module middleware/levels
+ */
+
+import { LogEntry, LogLevel } from './types';
+
+/** Levels by increasing severity */
+const LEVEL_RANKS: Readonly<Record<LogLevel, number>> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * Default level of an entry: error for 5xx responses and aborted
+ * requests, warn for 4xx responses and info otherwise (including entries
+ * written before the response, which have no status).
+ *
+ * @param entry - The log entry
+ * @returns The entry's level
+ *
+ * @example
+ * // Treat health checks as debug, other requests as usual
+ * levelFor: (entry) => entry.url === '/health' ? 'debug' : defaultLevelFor(entry)
+ */
+export function defaultLevelFor(entry: LogEntry): LogLevel {
+  if (entry.aborted || (entry.status ?? 0) >= 500) {
+    return 'error';
+  }
+  if ((entry.status ?? 0) >= 400) {
+    return 'warn';
+  }
+  return 'info';
+}
+
+/**
+ * Checks whether a level is at or above a threshold.
+ *
+ * @param level - The entry's level
+ * @param minLevel - The threshold
+ * @returns True if the level is as severe as the threshold or more
+ *
+ * @example
+ * meetsLevel('warn', 'info');  // true
+ * meetsLevel('info', 'error'); // false
+ */
+export function meetsLevel(level: LogLevel, minLevel: LogLevel): boolean {
+  return LEVEL_RANKS[level] >= LEVEL_RANKS[minLevel];
+}
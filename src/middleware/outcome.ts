@@ -0,0 +1,148 @@
+/**
+ * Response Outcome Tracking
+ *
+ * Helpers used by the request logger to observe how a request ended:
+ * the status code sent, how long the handler took, and how many bytes
+ * travelled in each direction.
+ *
+ * @module middleware/outcome
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { LogEntry } from './types';
+
+/**
+ * Snapshot of a finished (or aborted) response.
+ */
+export interface ResponseOutcome {
+  /** HTTP status code sent to the client */
+  status: number;
+
+  /** Time between the request arriving and the response completing, in milliseconds */
+  durationMs: number;
+
+  /** Number of body bytes written to the response */
+  responseBytes: number;
+
+  /** True when the connection closed before the response finished */
+  aborted: boolean;
+}
+
+/**
+ * Wraps `res.write` and `res.end` to count the body bytes sent to the client.
+ *
+ * Counting at the write calls (rather than trusting the Content-Length header)
+ * keeps the figure accurate for chunked and streamed responses.
+ *
+ * @param res - The response to instrument
+ * @returns Function returning the number of bytes written so far
+ *
+ * @example
+ * const getResponseBytes = countResponseBytes(res);
+ * res.end('hello');
+ * getResponseBytes(); // 5
+ */
+export function countResponseBytes(res: ServerResponse): () => number {
+  let bytes = 0;
+  const originalWrite = res.write;
+  const originalEnd = res.end;
+
+  const count = (chunk: unknown, encoding: unknown): void => {
+    if (typeof chunk === 'string') {
+      bytes += Buffer.byteLength(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8');
+    } else if (chunk instanceof Uint8Array) {
+      bytes += chunk.byteLength;
+    }
+  };
+
+  res.write = function (this: ServerResponse, chunk: unknown, ...args: unknown[]): boolean {
+    count(chunk, args[0]);
+    return (originalWrite as (...callArgs: unknown[]) => boolean).call(this, chunk, ...args);
+  } as ServerResponse['write'];
+
+  res.end = function (this: ServerResponse, chunk?: unknown, ...args: unknown[]): ServerResponse {
+    if (typeof chunk !== 'function') {
+      count(chunk, args[0]);
+    }
+    return (originalEnd as (...callArgs: unknown[]) => ServerResponse).call(this, chunk, ...args);
+  } as ServerResponse['end'];
+
+  return () => bytes;
+}
+
+/**
+ * Reads the declared request body size from the Content-Length header.
+ *
+ * Requests without a body (or using chunked transfer encoding without a
+ * declared length) are reported as 0 bytes.
+ *
+ * @param req - The incoming request
+ * @returns Declared request body size in bytes
+ */
+export function measureRequestBytes(req: IncomingMessage): number {
+  const contentLength = Number.parseInt(String(req.headers['content-length'] ?? ''), 10);
+  return Number.isFinite(contentLength) && contentLength > 0 ? contentLength : 0;
+}
+
+/**
+ * Invokes the callback exactly once when the response either finishes
+ * normally (`finish`) or the underlying connection closes first (`close`).
+ *
+ * @param res - The response to observe
+ * @param callback - Receives `true` when the response was aborted before finishing
+ */
+export function onResponseComplete(res: ServerResponse, callback: (aborted: boolean) => void): void {
+  let done = false;
+
+  const complete = (aborted: boolean): void => {
+    if (done) {
+      return;
+    }
+    done = true;
+    res.removeListener('finish', onFinish);
+    res.removeListener('close', onClose);
+    callback(aborted);
+  };
+
+  const onFinish = (): void => complete(false);
+  const onClose = (): void => complete(!res.writableFinished);
+
+  res.on('finish', onFinish);
+  res.on('close', onClose);
+}
+
+/**
+ * Converts a `process.hrtime.bigint()` start mark into elapsed milliseconds,
+ * rounded to microsecond precision.
+ *
+ * @param start - Value of `process.hrtime.bigint()` captured when the request arrived
+ * @returns Elapsed time in milliseconds
+ *
+ * @example
+ * const start = process.hrtime.bigint();
+ * // ... later
+ * elapsedMs(start); // 12.345
+ */
+export function elapsedMs(start: bigint): number {
+  const elapsedMicros = Number((process.hrtime.bigint() - start) / BigInt(1000));
+  return elapsedMicros / 1000;
+}
+
+/**
+ * Copies a response outcome onto a log entry.
+ *
+ * @param logEntry - The entry captured when the request arrived
+ * @param outcome - The observed response outcome
+ * @returns The same entry, now carrying status, duration and size fields
+ */
+export function applyResponseOutcome(logEntry: LogEntry, outcome: ResponseOutcome): LogEntry {
+  logEntry.status = outcome.status;
+  logEntry.durationMs = outcome.durationMs;
+  logEntry.responseBytes = outcome.responseBytes;
+
+  if (outcome.aborted) {
+    logEntry.aborted = true;
+  }
+
+  return logEntry;
+}
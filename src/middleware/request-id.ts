@@ -0,0 +1,99 @@
+/**
+ * Request IDs
+ *
+ * Picks the ID of each request: the one the client or an upstream proxy
+ * sent, if it is acceptable, or a newly generated UUID or ULID.
+ *
+ * @module middleware/request-id
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import { Request } from 'express';
+import { LoggerConfig } from './types';
+
+/** Crockford's base32 alphabet, used by ULIDs */
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Returns the ID for a request.
+ *
+ * The value of the configured request ID header is used when it matches
+ * requestIdPattern (the first value, if the header is repeated); otherwise
+ * a new ID is generated with requestIdGenerator.
+ *
+ * @param req - The incoming request
+ * @param config - Logger configuration
+ * @returns The request ID
+ * @throws TypeError if a custom generator does not return a non-empty string
+ *
+ * @example
+ * // X-Request-Id: 7f3c2a1e-upstream
+ * resolveRequestId(req, config); // '7f3c2a1e-upstream'
+ *
+ * // No header, or an invalid one
+ * resolveRequestId(req, config); // '9b2c4f8e-3d1a-4c6b-8f2e-7a5d1c0b9e4f'
+ */
+export function resolveRequestId(
+  req: Request,
+  config: Required<Pick<LoggerConfig, 'requestIdHeader' | 'requestIdPattern' | 'requestIdGenerator'>>
+): string {
+  const header = req.headers[config.requestIdHeader.toLowerCase()];
+  const incoming = Array.isArray(header) ? header[0] : header;
+
+  if (incoming && config.requestIdPattern.test(incoming)) {
+    return incoming;
+  }
+
+  return generateRequestId(config.requestIdGenerator);
+}
+
+/**
+ * Generates a new request ID.
+ *
+ * @param generator - 'uuid', 'ulid' or a function returning an ID
+ * @returns The new ID
+ * @throws TypeError if a custom generator does not return a non-empty string
+ */
+export function generateRequestId(generator: LoggerConfig['requestIdGenerator']): string {
+  if (typeof generator === 'function') {
+    const id = generator();
+    if (typeof id !== 'string' || id.length === 0) {
+      throw new TypeError('requestIdGenerator must return a non-empty string');
+    }
+    return id;
+  }
+
+  return generator === 'ulid' ? generateUlid() : randomUUID();
+}
+
+/**
+ * Generates a ULID: a 48-bit millisecond timestamp followed by 80 random
+ * bits, as 26 Crockford base32 characters. ULIDs sort by creation time.
+ *
+ * @param time - Creation time in milliseconds since the epoch
+ * @returns The ULID, e.g. '01JAG7ZQ3K5V8X2M4N6P9R1T3W'
+ */
+export function generateUlid(time = Date.now()): string {
+  let timePart = '';
+  for (let index = 0, remaining = time; index < 10; index++) {
+    timePart = ULID_ALPHABET[remaining % 32] + timePart;
+    remaining = Math.floor(remaining / 32);
+  }
+
+  // 80 random bits: 16 characters of 5 bits each
+  const bytes = randomBytes(10);
+  let randomPart = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      randomPart += ULID_ALPHABET[(buffer >> bits) & 31];
+    }
+    buffer &= (1 << bits) - 1;
+  }
+
+  return timePart + randomPart;
+}
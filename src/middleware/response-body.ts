@@ -0,0 +1,236 @@
+/**
+ * Response Body Capture
+ *
+ * Records the start of response bodies, typically of error responses, so
+ * failures can be debugged from the log without reproducing them.
+ *
+ * @module middleware/response-body
+ */
+
+import { ServerResponse } from 'http';
+import * as zlib from 'zlib';
+import { bodyKind, loggedBody } from './body';
+
+/**
+ * Compressed bytes kept from an encoded response body, when more than
+ * maxResponseBodyBytes: the start of a compressed stream is mostly headers
+ * and tables, so it takes more than maxResponseBodyBytes to decode that much
+ */
+const MIN_COMPRESSED_BYTES = 64 * 1024;
+
+/**
+ * Options for teeResponseBody, with content types and field paths already lowercased.
+ */
+export interface ResponseBodyOptions {
+  /** Largest response body logged, in bytes; longer bodies are cut and marked */
+  maxResponseBodyBytes: number;
+
+  /** Decides from the status code whether a response's body is kept */
+  captureResponseBodyWhen: (status: number) => boolean;
+
+  /** Content types whose bodies are captured */
+  bodyContentTypes: readonly string[];
+
+  /** Field paths redacted in JSON and form bodies */
+  redactBodyFields: readonly string[];
+}
+
+/**
+ * A response body recorded by teeResponseBody.
+ */
+export interface ResponseBodyCapture {
+  /**
+   * Calls back once the body can be read: right away, or once a compressed
+   * body has been decompressed in the background. Call it when the response
+   * has completed.
+   */
+  onReady(callback: () => void): void;
+
+  /**
+   * Returns the body to log (redacted and capped), or undefined if it was not captured.
+   */
+  value(): unknown;
+}
+
+/**
+ * Wraps `res.write` and `res.end` to keep a copy of the first
+ * maxResponseBodyBytes bytes of the response body (`res.send` and
+ * `res.json` finish through `res.end`).
+ *
+ * Whether the body is kept is decided from the status code when the first
+ * chunk is written, so bodies of other responses are never copied. Streamed
+ * bodies are copied up to the cap and the rest passes through untouched.
+ * Bodies with a Content-Encoding of gzip, deflate or br (e.g. from a
+ * compression middleware mounted after the logger) are decompressed, from
+ * up to 64 KiB of compressed bytes, without blocking the event loop and
+ * only until maxResponseBodyBytes have been decoded; other encodings are
+ * not captured.
+ *
+ * @param res - The response to instrument
+ * @param options - Status predicate, size cap, content types and redacted fields
+ * @returns The capture, whose body can be read once the response completes
+ *
+ * @example
+ * const capture = teeResponseBody(res, { maxResponseBodyBytes: 4096, captureResponseBodyWhen: (status) => status >= 400, bodyContentTypes: ['application/json'], redactBodyFields: [] });
+ * res.status(404).json({ error: 'Book not found' });
+ * res.on('finish', () => capture.onReady(() => console.log(capture.value())));
+ * // { error: 'Book not found' }
+ */
+export function teeResponseBody(res: ServerResponse, options: ResponseBodyOptions): ResponseBodyCapture {
+  const chunks: Buffer[] = [];
+  let retained = 0;
+  let received = 0;
+  let limit = options.maxResponseBodyBytes;
+  let keep: boolean | undefined;
+  let kind: ReturnType<typeof bodyKind>;
+  let decoded: Buffer | undefined;
+
+  const record = (chunk: unknown, encoding: unknown): void => {
+    // Decide once, when the status line and headers are about to be sent
+    if (keep === undefined) {
+      keep = shouldKeep(res.statusCode, options);
+      if (res.getHeader('content-encoding') !== undefined) {
+        limit = Math.max(limit, MIN_COMPRESSED_BYTES);
+      }
+    }
+    if (!keep || chunk === undefined || chunk === null || typeof chunk === 'function') {
+      return;
+    }
+
+    const bytes = typeof chunk === 'string'
+      ? Buffer.from(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8')
+      : Buffer.from(chunk as Uint8Array);
+    received += bytes.length;
+    if (retained < limit) {
+      const kept = bytes.subarray(0, limit - retained);
+      chunks.push(kept);
+      retained += kept.length;
+    }
+  };
+
+  const originalWrite = res.write;
+  const originalEnd = res.end;
+
+  res.write = function (this: ServerResponse, chunk: unknown, ...args: unknown[]): boolean {
+    record(chunk, args[0]);
+    return (originalWrite as (...callArgs: unknown[]) => boolean).call(this, chunk, ...args);
+  } as ServerResponse['write'];
+
+  res.end = function (this: ServerResponse, chunk?: unknown, ...args: unknown[]): ServerResponse {
+    record(chunk, args[0]);
+    return (originalEnd as (...callArgs: unknown[]) => ServerResponse).call(this, chunk, ...args);
+  } as ServerResponse['end'];
+
+  return {
+    onReady: (callback) => {
+      kind = keep && received > 0 ? bodyKind(headerText(res.getHeader('content-type')), options.bodyContentTypes) : undefined;
+      if (!kind) {
+        callback();
+        return;
+      }
+
+      decodeContent(Buffer.concat(chunks), headerText(res.getHeader('content-encoding')), options.maxResponseBodyBytes, (bytes) => {
+        decoded = bytes;
+        callback();
+      });
+    },
+    value: () => {
+      if (!kind || !decoded) {
+        return undefined;
+      }
+
+      // Decompressed bodies can be longer than the compressed bytes kept
+      const complete = received === retained && decoded.length <= options.maxResponseBodyBytes;
+      const text = decoded.subarray(0, options.maxResponseBodyBytes).toString('utf8');
+      return loggedBody(text, kind, complete, { maxBodyBytes: options.maxResponseBodyBytes, redactBodyFields: options.redactBodyFields });
+    },
+  };
+}
+
+/**
+ * Applies the status predicate, treating a throwing predicate as false.
+ */
+function shouldKeep(status: number, options: ResponseBodyOptions): boolean {
+  try {
+    return Boolean(options.captureResponseBodyWhen(status));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[Request Logger] captureResponseBodyWhen failed for status ${status}: ${errorMessage}`);
+    return false;
+  }
+}
+
+/**
+ * Decompresses body bytes according to their Content-Encoding, in the
+ * background, and calls back with them. Decoding stops once more than
+ * maxBytes have been decoded, which is enough to tell the body was cut. A
+ * body cut short at the size cap decompresses to its start. Calls back with
+ * undefined for unsupported encodings and undecodable bodies.
+ */
+function decodeContent(
+  bytes: Buffer,
+  contentEncoding: string | undefined,
+  maxBytes: number,
+  callback: (decoded: Buffer | undefined) => void
+): void {
+  const encoding = (contentEncoding ?? 'identity').trim().toLowerCase();
+  if (encoding === 'identity') {
+    callback(bytes);
+    return;
+  }
+
+  const decoder = createDecoder(encoding);
+  if (!decoder) {
+    callback(undefined);
+    return;
+  }
+
+  const output: Buffer[] = [];
+  let length = 0;
+  let settled = false;
+
+  const settle = (decoded: Buffer | undefined): void => {
+    if (settled) {
+      return;
+    }
+    settled = true;
+    decoder.destroy();
+    callback(decoded);
+  };
+
+  decoder.on('data', (chunk: Buffer) => {
+    output.push(chunk);
+    length += chunk.length;
+    if (length > maxBytes) {
+      settle(Buffer.concat(output));
+    }
+  });
+  decoder.on('end', () => settle(Buffer.concat(output)));
+  decoder.on('error', () => settle(undefined));
+  decoder.end(bytes);
+}
+
+/**
+ * Creates a streaming decoder for a Content-Encoding, or undefined if the
+ * encoding is not supported.
+ */
+function createDecoder(encoding: string): zlib.Gunzip | zlib.Inflate | zlib.BrotliDecompress | undefined {
+  switch (encoding) {
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.createGunzip({ finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    case 'deflate':
+      return zlib.createInflate({ finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    case 'br':
+      return zlib.createBrotliDecompress({ finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH });
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Reads a response header set as a string, number or list.
+ */
+function headerText(value: number | string | string[] | undefined): string | undefined {
+  return value === undefined ? undefined : Array.isArray(value) ? value.join(', ') : String(value);
+}
@@ -0,0 +1,266 @@
+/**
+ * Log Rotation
+ *
+ * File naming, compression and retention helpers used by the buffered writer.
+ *
+ * Size-based: when a log file grows past `maxFileSize`, the active file is
+ * renamed to a staging file on the write path (a cheap rename), and
+ * compressed into a numbered gzip archive in the background:
+ *
+ *   requests.log -> requests.1.log.gz -> requests.2.log.gz -> ... (up to maxFiles)
+ *
+ * Time-based: with a `rotationFrequency`, the configured log file path is a
+ * pattern and each day (or hour) is written to its own date-stamped file,
+ * e.g. requests-2026-10-19.log. Files older than `retentionDays` are deleted.
+ *
+ * @module middleware/rotation
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { RotationFrequency } from './types';
+
+/** Suffix of files renamed out of the way and waiting to be compressed */
+const STAGING_SUFFIX = '.rotating';
+
+/** Placeholder replaced by the date stamp in time-rotated log file paths */
+export const DATE_PLACEHOLDER = '%DATE%';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let stagingSequence = 0;
+
+/**
+ * Returns the path of the numbered gzip archive for a log file.
+ *
+ * @param logFilePath - Path of the active log file
+ * @param index - Archive number, starting at 1 for the most recent archive
+ * @returns Archive path
+ *
+ * @example
+ * archivePath('./logs/requests.log', 1); // 'logs/requests.1.log.gz'
+ * archivePath('./logs/access', 2);       // 'logs/access.2.gz'
+ */
+export function archivePath(logFilePath: string, index: number): string {
+  const { dir, name, ext } = path.parse(logFilePath);
+  return path.join(dir, `${name}.${index}${ext}.gz`);
+}
+
+/**
+ * Returns a unique staging path to rename the active log file to before compression.
+ *
+ * @param logFilePath - Path of the active log file
+ * @returns Staging path, e.g. 'logs/requests.log.1763000000000-1.rotating'
+ */
+export function stagingPath(logFilePath: string): string {
+  stagingSequence += 1;
+  return `${path.normalize(logFilePath)}.${Date.now()}-${stagingSequence}${STAGING_SUFFIX}`;
+}
+
+/**
+ * Finds staging files left behind by an earlier process (for example one that
+ * crashed mid-compression), oldest first.
+ *
+ * @param logFilePath - Path of the active log file
+ * @returns Paths of staging files that still need compressing
+ */
+export async function findPendingRotations(logFilePath: string): Promise<string[]> {
+  const dir = path.dirname(logFilePath);
+  const prefix = `${path.basename(logFilePath)}.`;
+
+  try {
+    const files = await fs.promises.readdir(dir);
+    return files
+      .filter((file) => file.startsWith(prefix) && file.endsWith(STAGING_SUFFIX))
+      .sort(compareStagingNames)
+      .map((file) => path.join(dir, file));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Shifts existing archives up by one (dropping the oldest beyond maxFiles),
+ * then compresses a staging file into archive number 1 and removes it.
+ *
+ * @param staging - Staging file produced by renaming the active log file
+ * @param logFilePath - Path of the active log file
+ * @param maxFiles - Maximum number of archives to keep
+ * @throws Error if the archive cannot be written; the staging file is kept
+ */
+export async function compressRotatedFile(staging: string, logFilePath: string, maxFiles: number): Promise<void> {
+  const keep = Math.max(1, maxFiles);
+
+  await removeIfExists(archivePath(logFilePath, keep));
+  for (let index = keep - 1; index >= 1; index--) {
+    await renameIfExists(archivePath(logFilePath, index), archivePath(logFilePath, index + 1));
+  }
+
+  const target = archivePath(logFilePath, 1);
+  try {
+    await pipeline(fs.createReadStream(staging), createGzip(), fs.createWriteStream(target));
+  } catch (error) {
+    await removeIfExists(target);
+    throw error;
+  }
+
+  await fs.promises.unlink(staging);
+}
+
+/**
+ * Formats the UTC date stamp of the rotation period containing a point in time.
+ *
+ * @param time - Milliseconds since the epoch
+ * @param frequency - 'daily' (YYYY-MM-DD) or 'hourly' (YYYY-MM-DD-HH)
+ * @returns Date stamp for the period
+ *
+ * @example
+ * formatPeriod(Date.parse('2026-10-19T13:55:36Z'), 'daily');  // '2026-10-19'
+ * formatPeriod(Date.parse('2026-10-19T13:55:36Z'), 'hourly'); // '2026-10-19-13'
+ */
+export function formatPeriod(time: number, frequency: Exclude<RotationFrequency, 'none'>): string {
+  const iso = new Date(time).toISOString();
+  return frequency === 'hourly' ? `${iso.slice(0, 10)}-${iso.slice(11, 13)}` : iso.slice(0, 10);
+}
+
+/**
+ * Resolves the log file to write to at a point in time.
+ *
+ * The `%DATE%` placeholder in the configured path is replaced by the period's
+ * date stamp. Paths without a placeholder get `-<date>` inserted before the
+ * extension. Without time-based rotation the path is returned unchanged.
+ *
+ * @param logFilePath - Configured log file path (or pattern)
+ * @param frequency - Rotation frequency
+ * @param time - Milliseconds since the epoch
+ * @returns Path of the log file for that period
+ *
+ * @example
+ * resolveLogFilePath('./logs/requests.log', 'daily', Date.parse('2026-10-19T13:55:36Z'));
+ * // 'logs/requests-2026-10-19.log'
+ * resolveLogFilePath('./logs/%DATE%/requests.log', 'hourly', Date.parse('2026-10-19T13:55:36Z'));
+ * // 'logs/2026-10-19-13/requests.log'
+ */
+export function resolveLogFilePath(logFilePath: string, frequency: RotationFrequency, time: number): string {
+  if (frequency === 'none') {
+    return logFilePath;
+  }
+
+  return toDatePattern(logFilePath).split(DATE_PLACEHOLDER).join(formatPeriod(time, frequency));
+}
+
+/**
+ * Returns the configured path as a pattern containing the `%DATE%` placeholder.
+ *
+ * @param logFilePath - Configured log file path (or pattern)
+ * @returns Normalized pattern, e.g. 'logs/requests-%DATE%.log'
+ */
+function toDatePattern(logFilePath: string): string {
+  if (logFilePath.includes(DATE_PLACEHOLDER)) {
+    return path.normalize(logFilePath);
+  }
+
+  const { dir, name, ext } = path.parse(logFilePath);
+  return path.join(dir, `${name}-${DATE_PLACEHOLDER}${ext}`);
+}
+
+/**
+ * Deletes date-stamped log files, archives and staging files whose period
+ * started more than `retentionDays` days before the start of the current
+ * day (UTC). With `retentionDays: 7`, today's file and the previous seven
+ * days' files are kept.
+ *
+ * Only files in the pattern's directory whose names match the pattern are
+ * considered, so unrelated files are never touched.
+ *
+ * @param logFilePath - Configured log file path (or pattern)
+ * @param frequency - Rotation frequency ('daily' or 'hourly')
+ * @param retentionDays - Number of past days to keep
+ * @param now - Current time in milliseconds since the epoch
+ * @returns Paths of the files that were deleted
+ */
+export async function removeExpiredLogFiles(
+  logFilePath: string,
+  frequency: Exclude<RotationFrequency, 'none'>,
+  retentionDays: number,
+  now: number = Date.now()
+): Promise<string[]> {
+  const template = toDatePattern(logFilePath);
+  const dir = path.dirname(template);
+  const base = path.basename(template);
+
+  if (!base.includes(DATE_PLACEHOLDER)) {
+    // The date stamp is part of the directory; nothing to match file names against
+    return [];
+  }
+
+  // Archives insert their number before the extension: requests-2026-10-19.1.log.gz
+  const [prefix, rest] = base.split(DATE_PLACEHOLDER);
+  const extIndex = rest.lastIndexOf('.');
+  const restName = extIndex >= 0 ? rest.slice(0, extIndex) : rest;
+  const ext = extIndex >= 0 ? rest.slice(extIndex) : '';
+  const datePattern = frequency === 'hourly' ? '\\d{4}-\\d{2}-\\d{2}-\\d{2}' : '\\d{4}-\\d{2}-\\d{2}';
+  const matcher = new RegExp(
+    `^${escapeRegExp(prefix)}(${datePattern})${escapeRegExp(restName)}(?:\\.\\d+)?${escapeRegExp(ext)}(?:\\.gz|\\.\\d+-\\d+\\${STAGING_SUFFIX})?$`
+  );
+
+  const todayStart = Math.floor(now / DAY_MS) * DAY_MS;
+  const cutoff = todayStart - retentionDays * DAY_MS;
+
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const removed: string[] = [];
+  for (const file of files) {
+    const match = matcher.exec(file);
+    if (!match) {
+      continue;
+    }
+
+    const stamp = match[1];
+    const periodStart = Date.parse(`${stamp.slice(0, 10)}T${stamp.slice(11, 13) || '00'}:00:00Z`);
+    if (Number.isFinite(periodStart) && periodStart < cutoff) {
+      await removeIfExists(path.join(dir, file));
+      removed.push(path.join(dir, file));
+    }
+  }
+
+  return removed;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+async function removeIfExists(filePath: string): Promise<void> {
+  await fs.promises.unlink(filePath).catch(ignoreMissing);
+}
+
+async function renameIfExists(from: string, to: string): Promise<void> {
+  await fs.promises.rename(from, to).catch(ignoreMissing);
+}
+
+function ignoreMissing(error: NodeJS.ErrnoException): void {
+  if (error.code !== 'ENOENT') {
+    throw error;
+  }
+}
+
+/**
+ * Orders staging file names by their embedded timestamp and sequence number.
+ */
+function compareStagingNames(a: string, b: string): number {
+  const key = (file: string): number[] => {
+    const match = /\.(\d+)-(\d+)\.rotating$/.exec(file);
+    return match ? [Number(match[1]), Number(match[2])] : [0, 0];
+  };
+  const [timeA, seqA] = key(a);
+  const [timeB, seqB] = key(b);
+  return timeA - timeB || seqA - seqB;
+}
@@ -0,0 +1,114 @@
+/**
+ * Sampling
+ *
+ * Logs a fraction of requests, chosen by rate per route and method, while
+ * keeping every failed or slow request. Sampling decisions are derived from
+ * the request ID, so services that share it log the same requests.
+ *
+ * @module middleware/sampling
+ */
+
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import { globPattern, requestPath } from './filters';
+import { LogEntry, SampleRule } from './types';
+
+/**
+ * Options for createSampler, already validated.
+ */
+export interface SamplerOptions {
+  /** Rate of requests logged when no rule matches, from 0 to 1 */
+  sampleRate: number;
+
+  /** Rates for requests by method and path; the first matching rule applies */
+  sampleRules: readonly SampleRule[];
+
+  /** Entries with this status or higher are always logged (0 to disable) */
+  alwaysLogStatus: number;
+
+  /** Entries that took longer than this many ms are always logged (0 to disable) */
+  alwaysLogSlowerThanMs: number;
+}
+
+/**
+ * Sampling decisions for one logger.
+ */
+export interface Sampler {
+  /** False when every request is logged, so entries carry no sampleRate */
+  enabled: boolean;
+
+  /**
+   * Returns the rate of the first rule matching the request, or the default rate.
+   */
+  rateFor(req: Request): number;
+
+  /**
+   * Checks whether an entry must be logged whatever the sampling decision,
+   * from its response outcome.
+   */
+  mustKeep(entry: LogEntry): boolean;
+}
+
+/**
+ * Creates the sampler for a logger's options.
+ *
+ * Rule paths are matched against the request path (without the query
+ * string): a string matches the whole path, with '*' standing for any
+ * characters, and a RegExp is tested against it. Rule methods are
+ * compared case-insensitively.
+ *
+ * @param options - Rates, rules and keep thresholds
+ * @returns The sampler
+ *
+ * @example
+ * const sampler = createSampler({ sampleRate: 1, sampleRules: [{ method: 'GET', path: '/api/books**', rate: 0.01 }], alwaysLogStatus: 500, alwaysLogSlowerThanMs: 0 });
+ * sampler.rateFor(req); // 0.01 for GET /api/books/42
+ */
+export function createSampler(options: SamplerOptions): Sampler {
+  const rules = options.sampleRules.map((rule) => ({
+    method: rule.method?.toUpperCase(),
+    path: typeof rule.path === 'string' ? globPattern(rule.path) : rule.path,
+    rate: rule.rate,
+  }));
+
+  return {
+    enabled: options.sampleRate < 1 || rules.length > 0,
+    rateFor: (req) => {
+      const path = requestPath(req);
+      const rule = rules.find((candidate) =>
+        (candidate.method === undefined || candidate.method === req.method?.toUpperCase())
+        && (candidate.path === undefined || candidate.path.test(path))
+      );
+      return rule ? rule.rate : options.sampleRate;
+    },
+    mustKeep: (entry) =>
+      (options.alwaysLogStatus > 0 && entry.status !== undefined && entry.status >= options.alwaysLogStatus)
+      || (options.alwaysLogSlowerThanMs > 0 && entry.durationMs !== undefined && entry.durationMs > options.alwaysLogSlowerThanMs),
+  };
+}
+
+/**
+ * Decides whether a request is sampled, from its ID.
+ *
+ * The first four bytes of the SHA-256 digest of the ID (UTF-8), read as a
+ * big-endian unsigned integer and divided by 2^32, give a number in [0, 1);
+ * the request is sampled when it is below the rate. Other services can
+ * apply the same computation to log the same requests.
+ *
+ * @param requestId - The request ID
+ * @param rate - Rate of requests sampled, from 0 to 1
+ * @returns True if the request is sampled
+ *
+ * @example
+ * isSampled('9b2c4f8e-3d1a-4c6b-8f2e-7a5d1c0b9e4f', 0.1); // the same answer every time
+ */
+export function isSampled(requestId: string, rate: number): boolean {
+  if (rate >= 1) {
+    return true;
+  }
+  if (rate <= 0) {
+    return false;
+  }
+  return createHash('sha256').update(requestId).digest().readUInt32BE(0) / 2 ** 32 < rate;
+}
+
@@ -0,0 +1,213 @@
+/**
+ * Template Formats
+ *
+ * Morgan-style format strings built from tokens, such as
+ * ':date[iso] :method :url :status :response-time ms :req[x-tenant]'.
+ *
+ * A template is compiled once into a formatter function when the logger is
+ * created, so no parsing happens per request. Custom tokens are added with
+ * defineToken().
+ *
+ * @module middleware/templates
+ */
+
+import { Request, Response } from 'express';
+import { DEFAULT_CONFIG } from './constants';
+import { formatClfDate } from './formatters';
+import { HeaderRedactionOptions, redactHeader } from './headers';
+import { loggedAddress } from './ip';
+import { LogEntry, LogFormatter } from './types';
+
+/**
+ * Computes the value of a template token for one request.
+ *
+ * @param req - The incoming request
+ * @param res - The response sent for it
+ * @param entry - The captured log entry
+ * @param arg - The bracketed argument, e.g. 'x-tenant' in ':req[x-tenant]'
+ * @returns The token value; undefined, null and empty strings are written as '-'
+ */
+export type TokenFunction = (
+  req: Request,
+  res: Response,
+  entry: LogEntry,
+  arg?: string
+) => string | number | undefined | null;
+
+/** Matches ':name' or ':name[arg]' */
+const TOKEN_PATTERN = /:([a-zA-Z][\w-]*)(?:\[([^\]]+)\])?/g;
+
+/**
+ * Tokens by name, starting with the built-in tokens.
+ */
+const tokens = new Map<string, TokenFunction>([
+  ['date', (req, res, entry, arg) => formatDate(entry.timestamp, arg)],
+  ['method', (req, res, entry) => entry.method],
+  ['url', (req, res, entry) => entry.url],
+  ['status', (req, res, entry) => entry.status],
+  ['request-id', (req, res, entry) => entry.requestId],
+  ['trace-id', (req, res, entry) => entry.traceId],
+  ['span-id', (req, res, entry) => entry.spanId],
+  ['parent-span-id', (req, res, entry) => entry.parentSpanId],
+  ['response-time', (req, res, entry, arg) => formatDuration(entry.durationMs, arg)],
+  ['remote-addr', (req, res, entry) => entry.ip ?? loggedAddress(req)],
+  ['http-version', (req) => req.httpVersion],
+  ['referrer', (req) => headerValue(req.headers.referer ?? req.headers.referrer)],
+  ['user-agent', (req) => req.headers['user-agent']],
+  ['req', (req, res, entry, arg) => (arg ? headerValue(req.headers[arg.toLowerCase()]) : undefined)],
+  ['res', (req, res, entry, arg) => (arg ? headerValue(res.getHeader(arg)) : undefined)],
+  ['request-bytes', (req, res, entry) => entry.requestBytes],
+  ['response-bytes', (req, res, entry) => entry.responseBytes],
+]);
+
+/**
+ * Tokens that print a header, with the header each prints for an argument.
+ * Their values are redacted like captured headers, even when the token has
+ * been replaced with defineToken().
+ */
+const headerTokens = new Map<string, (arg?: string) => string | undefined>([
+  ['referrer', () => 'referer'],
+  ['user-agent', () => 'user-agent'],
+  ['req', (arg) => arg],
+  ['res', (arg) => arg],
+]);
+
+/**
+ * Defines a custom template token, or replaces an existing one.
+ *
+ * Tokens are resolved when a template is compiled, so define them before
+ * creating the loggers whose templates use them.
+ *
+ * @param name - Token name, used as ':name' in templates
+ * @param fn - Function computing the token value for a request
+ * @throws TypeError if the name is not a valid token name or fn is not a function
+ *
+ * @example
+ * import { createRequestLogger, defineToken } from './middleware';
+ *
+ * defineToken('tenant', (req) => req.headers['x-tenant'] as string);
+ *
+ * app.use(createRequestLogger({ format: ':method :url :status :tenant', logOnResponse: true }));
+ * // Output: GET /api/books 200 acme
+ */
+export function defineToken(name: string, fn: TokenFunction): void {
+  if (typeof name !== 'string' || !/^[a-zA-Z][\w-]*$/.test(name)) {
+    throw new TypeError(`Invalid token name "${String(name)}". Use letters, digits, '-' and '_', starting with a letter.`);
+  }
+
+  if (typeof fn !== 'function') {
+    throw new TypeError(`Token "${name}" must be a function`);
+  }
+
+  tokens.set(name, fn);
+}
+
+/**
+ * Checks whether a format string is a template, i.e. contains at least one token.
+ *
+ * @param format - Format option value
+ * @returns True if the value is a string containing ':name'
+ */
+export function isTemplate(format: unknown): format is string {
+  return typeof format === 'string' && new RegExp(TOKEN_PATTERN.source).test(format);
+}
+
+/**
+ * Compiles a template into a formatter function.
+ *
+ * The template is split into literal text and token lookups once; the
+ * returned formatter only calls the token functions and joins the results.
+ * Unknown tokens are reported with a warning and kept as literal text.
+ * Header tokens (:req[name], :res[name], :user-agent, :referrer) print
+ * headers listed in redactHeaders redacted, and the Referer URL redacted
+ * like request URLs.
+ *
+ * @param template - Format string, e.g. ':method :url :status :response-time ms'
+ * @param options - Headers and URL parts to redact, and how; defaults to the default configuration
+ * @returns Formatter producing one line per entry, with newline
+ *
+ * @example
+ * const formatter = compileTemplate(':method :url :status');
+ * formatter(entry, { req, res }); // 'GET /api/books 200\n'
+ */
+export function compileTemplate(template: string, options: HeaderRedactionOptions = DEFAULT_CONFIG): LogFormatter {
+  const parts: Array<string | { fn: TokenFunction; arg?: string; header?: string }> = [];
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    const [text, name, arg] = match;
+    const fn = tokens.get(name);
+    const index = match.index ?? 0;
+
+    if (!fn) {
+      console.warn(`Unknown token ":${name}" in log format template. It will be logged as written.`);
+      continue;
+    }
+
+    parts.push(template.slice(lastIndex, index));
+    parts.push({ fn, arg, header: headerTokens.get(name)?.(arg) });
+    lastIndex = index + text.length;
+  }
+  parts.push(template.slice(lastIndex));
+
+  // Empty literal text between adjacent tokens is dropped
+  const compiled = parts.filter((part) => part !== '');
+
+  return (logEntry, context) => {
+    let line = '';
+
+    for (const part of compiled) {
+      if (typeof part === 'string') {
+        line += part;
+        continue;
+      }
+
+      // Without a request context (formatter called directly) only literal text is rendered
+      const value = context ? part.fn(context.req, context.res, logEntry, part.arg) : undefined;
+      if (value === undefined || value === null || value === '') {
+        line += '-';
+      } else {
+        line += part.header ? redactHeader(part.header, String(value), options) : String(value);
+      }
+    }
+
+    return line + '\n';
+  };
+}
+
+/**
+ * Formats the request time for the ':date' token.
+ *
+ * - 'iso' (default): 2026-10-19T13:55:36.123Z
+ * - 'clf': 19/Oct/2026:13:55:36 +0000
+ * - 'web': Mon, 19 Oct 2026 13:55:36 GMT
+ */
+function formatDate(timestamp: string, format = 'iso'): string {
+  if (format === 'clf') {
+    return formatClfDate(timestamp);
+  }
+  if (format === 'web') {
+    return new Date(timestamp).toUTCString();
+  }
+  return timestamp;
+}
+
+/**
+ * Formats the handler duration for the ':response-time' token with the
+ * given number of decimal places (default 3).
+ */
+function formatDuration(durationMs: number | undefined, digits?: string): string | undefined {
+  if (durationMs === undefined) {
+    return undefined;
+  }
+
+  const places = digits === undefined ? 3 : Number.parseInt(digits, 10);
+  return durationMs.toFixed(Number.isInteger(places) && places >= 0 && places <= 20 ? places : 3);
+}
+
+/**
+ * Joins multi-valued headers the way Node.js joins most repeated headers.
+ */
+function headerValue(value: string | number | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value.join(', ') : value === undefined ? undefined : String(value);
+}
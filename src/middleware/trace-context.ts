@@ -0,0 +1,193 @@
+/**
+ * W3C Trace Context
+ *
+ * Parses the `traceparent` and `tracestate` headers defined by the W3C
+ * Trace Context specification (https://www.w3.org/TR/trace-context/), so
+ * log entries can be joined with distributed traces, and starts new traces
+ * for requests that arrive without one.
+ *
+ * @module middleware/trace-context
+ */
+
+import { randomBytes } from 'crypto';
+import { Request } from 'express';
+import { TraceContext } from './types';
+
+/** version-traceid-parentid-flags, lowercase hex, then anything a future version adds */
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(.*)$/;
+
+/** A tracestate key: simple, or multi-tenant (tenant@system) */
+const TRACESTATE_KEY_PATTERN = /^(?:[a-z0-9][_0-9a-z\-*/]{0,255}|[a-z0-9][_0-9a-z\-*/]{0,240}@[a-z][_0-9a-z\-*/]{0,13})$/;
+
+/** A tracestate value: printable ASCII except ',' and '=', not ending in a space */
+const TRACESTATE_VALUE_PATTERN = /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
+/** Maximum number of tracestate list members */
+const MAX_TRACESTATE_MEMBERS = 32;
+
+/** Trace flags for traces started here: sampled, since the request is being logged */
+const SAMPLED_FLAGS = '01';
+
+/**
+ * The fields of a valid traceparent header.
+ */
+export interface Traceparent {
+  /** Format version, '00' for the current specification */
+  version: string;
+
+  /** 32 lowercase hex characters, not all zero */
+  traceId: string;
+
+  /** Span ID of the caller, 16 lowercase hex characters, not all zero */
+  parentId: string;
+
+  /** Two hex characters; bit 0 is the sampled flag */
+  traceFlags: string;
+}
+
+/**
+ * Parses a traceparent header.
+ *
+ * Follows the specification's rules: the value must be lowercase hex, the
+ * version 'ff' and all-zero trace and parent IDs are invalid, and version
+ * '00' headers must not carry extra fields. Headers of later versions are
+ * accepted if their first four fields are valid, as the specification
+ * requires. Repeated traceparent headers are invalid.
+ *
+ * @param header - The traceparent header value
+ * @returns The parsed fields, or undefined if the header is missing or malformed
+ *
+ * @example
+ * parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+ * // { version: '00', traceId: '4bf92f3577b34da6a3ce929d0e0e4736', parentId: '00f067aa0ba902b7', traceFlags: '01' }
+ *
+ * parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01'); // undefined
+ */
+export function parseTraceparent(header: string | string[] | undefined): Traceparent | undefined {
+  if (typeof header !== 'string') {
+    return undefined;
+  }
+
+  const match = TRACEPARENT_PATTERN.exec(header.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, parentId, traceFlags, rest] = match;
+
+  if (version === 'ff' || /^0+$/.test(traceId) || /^0+$/.test(parentId)) {
+    return undefined;
+  }
+
+  // Version 00 has exactly four fields; later versions may append fields after a '-'
+  if (version === '00' ? rest !== '' : rest !== '' && !rest.startsWith('-')) {
+    return undefined;
+  }
+
+  return { version, traceId, parentId, traceFlags };
+}
+
+/**
+ * Parses and normalizes a tracestate header.
+ *
+ * Repeated headers are combined, whitespace around list members is removed
+ * and empty members are skipped. The whole header is discarded if any
+ * member is malformed, a key repeats, or there are more than 32 members.
+ *
+ * @param header - The tracestate header value(s)
+ * @returns The normalized tracestate, or undefined if missing, empty or malformed
+ *
+ * @example
+ * parseTracestate('congo=t61rcWkgMzE, rojo=00f067aa0ba902b7');
+ * // 'congo=t61rcWkgMzE,rojo=00f067aa0ba902b7'
+ */
+export function parseTracestate(header: string | string[] | undefined): string | undefined {
+  if (header === undefined) {
+    return undefined;
+  }
+
+  const members = (Array.isArray(header) ? header.join(',') : header)
+    .split(',')
+    .map((member) => member.trim())
+    .filter((member) => member !== '');
+
+  if (members.length === 0 || members.length > MAX_TRACESTATE_MEMBERS) {
+    return undefined;
+  }
+
+  const keys = new Set<string>();
+  for (const member of members) {
+    const separator = member.indexOf('=');
+    const key = member.slice(0, separator);
+    const value = member.slice(separator + 1);
+
+    if (separator === -1 || !TRACESTATE_KEY_PATTERN.test(key) || !TRACESTATE_VALUE_PATTERN.test(value) || keys.has(key)) {
+      return undefined;
+    }
+    keys.add(key);
+  }
+
+  return members.join(',');
+}
+
+/**
+ * Determines the trace a request belongs to.
+ *
+ * A valid incoming traceparent is continued: its trace ID and flags are
+ * kept, the request gets a new random span ID, and the incoming parent ID
+ * (the caller's span) becomes the parent span ID. The tracestate is only
+ * used alongside a valid traceparent. Without one, a new trace with random
+ * IDs is started when startTrace is set.
+ *
+ * @param req - The incoming request
+ * @param startTrace - Start a new trace when the request carries no valid traceparent
+ * @returns The request's trace context, or undefined if there is none
+ *
+ * @example
+ * // traceparent: 00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01
+ * resolveTraceContext(req, false);
+ * // { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: 'b7ad6b7169203331', parentSpanId: '00f067aa0ba902b7',
+ * //   traceFlags: '01', traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-b7ad6b7169203331-01' }
+ */
+export function resolveTraceContext(req: Request, startTrace: boolean): TraceContext | undefined {
+  const incoming = parseTraceparent(req.headers.traceparent);
+
+  if (incoming) {
+    const tracestate = parseTracestate(req.headers.tracestate);
+    const spanId = randomHexId(8);
+    return {
+      traceId: incoming.traceId,
+      spanId,
+      parentSpanId: incoming.parentId,
+      traceFlags: incoming.traceFlags,
+      traceparent: formatTraceparent(incoming.traceId, spanId, incoming.traceFlags),
+      ...(tracestate ? { tracestate } : {}),
+    };
+  }
+
+  if (!startTrace) {
+    return undefined;
+  }
+
+  const traceId = randomHexId(16);
+  const spanId = randomHexId(8);
+  return { traceId, spanId, traceFlags: SAMPLED_FLAGS, traceparent: formatTraceparent(traceId, spanId, SAMPLED_FLAGS) };
+}
+
+/**
+ * Builds a version 00 traceparent header value.
+ */
+function formatTraceparent(traceId: string, spanId: string, traceFlags: string): string {
+  return `00-${traceId}-${spanId}-${traceFlags}`;
+}
+
+/**
+ * Returns a random ID of the given size as lowercase hex, never all zero.
+ */
+function randomHexId(bytes: number): string {
+  let id: string;
+  do {
+    id = randomBytes(bytes).toString('hex');
+  } while (/^0+$/.test(id));
+  return id;
+}
@@ -0,0 +1,83 @@
+/**
+ * Console Transport
+ *
+ * Writes entries to the process's standard output or standard error.
+ *
+ * @module middleware/transports/console
+ */
+
+import { LogEntry, LogFormat, LogFormatter, LogLevel } from '../types';
+import { StreamTransport } from './stream';
+
+/**
+ * Options for ConsoleTransport.
+ */
+export interface ConsoleTransportOptions {
+  /**
+   * Which standard stream to write to.
+   *
+   * @default 'stdout'
+   */
+  stream?: 'stdout' | 'stderr';
+
+  /** Format for entries written to the console. Defaults to the logger's format. */
+  format?: LogFormat | LogFormatter;
+
+  /** Lowest level of entries written to the console. Defaults to every entry. */
+  level?: LogLevel;
+
+  /**
+   * Color lines by response status (yellow for 4xx, red for 5xx and aborted requests).
+   *
+   * @default true when the stream is a TTY
+   */
+  colorize?: boolean;
+}
+
+const YELLOW = '\x1b[33m';
+const RED = '\x1b[31m';
+const RESET = '\x1b[0m';
+
+/**
+ * Transport that writes each formatted entry to stdout or stderr.
+ *
+ * The stream is never ended when the transport is closed.
+ *
+ * @example
+ * import { createRequestLogger, ConsoleTransport, FileTransport } from './middleware';
+ *
+ * // JSON on disk, readable text on the console
+ * app.use(createRequestLogger({
+ *   logOnResponse: true,
+ *   transports: [
+ *     new FileTransport({ logFilePath: './logs/requests.log', format: 'json' }),
+ *     new ConsoleTransport({ format: 'text' }),
+ *   ],
+ * }));
+ */
+export class ConsoleTransport extends StreamTransport {
+  private readonly colorize: boolean;
+
+  constructor(options: ConsoleTransportOptions = {}) {
+    const stream = options.stream === 'stderr' ? process.stderr : process.stdout;
+    super({ stream, format: options.format, level: options.level, end: false });
+    this.colorize = options.colorize ?? Boolean(stream.isTTY);
+  }
+
+  write(entry: LogEntry, formatted: string): void {
+    if (!this.colorize) {
+      super.write(entry, formatted);
+      return;
+    }
+
+    const color = entry.aborted || (entry.status ?? 0) >= 500 ? RED : (entry.status ?? 0) >= 400 ? YELLOW : '';
+    if (!color) {
+      super.write(entry, formatted);
+      return;
+    }
+
+    // Keep the trailing newline outside the color codes
+    const line = formatted.endsWith('\n') ? formatted.slice(0, -1) : formatted;
+    super.write(entry, `${color}${line}${RESET}\n`);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * File Transport
+ *
+ * Writes entries to a log file through the buffered background writer,
+ * with optional size- and time-based rotation.
+ *
+ * @module middleware/transports/file
+ */
+
+import { DEFAULT_CONFIG } from '../constants';
+import { LogEntry, LogFormat, LogFormatter, LogLevel, RotationFrequency, Transport } from '../types';
+import { BufferedFileWriter } from '../writer';
+
+/**
+ * Options for FileTransport. Omitted options use the logger defaults
+ * (see DEFAULT_CONFIG).
+ */
+export interface FileTransportOptions {
+  /** Path (or date pattern) of the log file. @default './logs/requests.log' */
+  logFilePath?: string;
+
+  /** Format for entries written to this file. Defaults to the logger's format. */
+  format?: LogFormat | LogFormatter;
+
+  /** Lowest level of entries written to this transport. Defaults to every entry. */
+  level?: LogLevel;
+
+  /** Maximum time in milliseconds an entry is buffered. @default 50 */
+  flushInterval?: number;
+
+  /** Buffered size that triggers an immediate flush. @default 65536 */
+  maxBufferSize?: number;
+
+  /** Rotate the file once it reaches this many bytes (0 disables). @default 0 */
+  maxFileSize?: number;
+
+  /** Number of gzip-compressed archives to keep. @default 5 */
+  maxFiles?: number;
+
+  /** Start a date-stamped file 'daily' or 'hourly'. @default 'none' */
+  rotationFrequency?: RotationFrequency;
+
+  /** Days of date-stamped files to keep (0 keeps forever). @default 0 */
+  retentionDays?: number;
+}
+
+/**
+ * Transport that appends entries to a log file.
+ *
+ * Entries are queued in memory and written in batches over a single open
+ * stream, so `write()` never waits on disk I/O. Write failures are reported
+ * to the console once per failed batch. Formats with a header (such as
+ * 'w3c') write it at the top of each new or rotated file.
+ *
+ * @example
+ * import { createRequestLogger, FileTransport } from './middleware';
+ *
+ * app.use(createRequestLogger({
+ *   transports: [
+ *     new FileTransport({ logFilePath: './logs/requests.log', format: 'json', maxFileSize: 10 * 1024 * 1024 }),
+ *   ],
+ * }));
+ */
+export class FileTransport implements Transport {
+  readonly format?: LogFormat | LogFormatter;
+  readonly level?: LogLevel;
+  private readonly writer: BufferedFileWriter;
+
+  constructor(options: FileTransportOptions = {}) {
+    this.format = options.format;
+    this.level = options.level;
+    this.writer = new BufferedFileWriter(options.logFilePath ?? DEFAULT_CONFIG.logFilePath, {
+      flushInterval: options.flushInterval ?? DEFAULT_CONFIG.flushInterval,
+      maxBufferSize: options.maxBufferSize ?? DEFAULT_CONFIG.maxBufferSize,
+      maxFileSize: options.maxFileSize ?? DEFAULT_CONFIG.maxFileSize,
+      maxFiles: options.maxFiles ?? DEFAULT_CONFIG.maxFiles,
+      rotationFrequency: options.rotationFrequency ?? DEFAULT_CONFIG.rotationFrequency,
+      retentionDays: options.retentionDays ?? DEFAULT_CONFIG.retentionDays,
+      onError: reportWriteError,
+    });
+  }
+
+  write(entry: LogEntry, formatted: string): void {
+    this.writer.write(formatted);
+  }
+
+  setHeader(header: (created: Date) => string): void {
+    this.writer.setHeader(header);
+  }
+
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  close(): Promise<void> {
+    return this.writer.close();
+  }
+}
+
+/**
+ * Reports a batch of entries that the background writer could not persist,
+ * or a failed rotation step.
+ *
+ * @param error - The file system error, with its original code
+ * @param droppedEntries - Number of entries lost with the failed batch (0 for rotation failures)
+ */
+function reportWriteError(error: NodeJS.ErrnoException, droppedEntries: number): void {
+  if (droppedEntries === 0) {
+    // Rotation failures never lose entries: writing continues in the current file
+    console.error(`[Request Logger] Log rotation failed: ${error.message} (Error code: ${error.code ?? 'UNKNOWN'})`);
+    return;
+  }
+
+  console.error(
+    `[Request Logger] Failed to log request batch (${droppedEntries} ${droppedEntries === 1 ? 'entry' : 'entries'} dropped): ${error.message} (Error code: ${error.code ?? 'UNKNOWN'})`
+  );
+}
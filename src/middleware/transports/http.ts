@@ -0,0 +1,425 @@
+/**
+ * HTTP Transport
+ *
+ * Ships entries to a central collector as NDJSON batches over HTTP POST,
+ * retrying with exponential backoff and spooling undeliverable batches to
+ * disk until the collector is reachable again.
+ *
+ * @module middleware/transports/http
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { LogEntry, LogFormat, LogLevel, Transport } from '../types';
+
+/**
+ * Options for HttpTransport.
+ */
+export interface HttpTransportOptions {
+  /** Collector endpoint, e.g. 'https://logs.internal/ingest' */
+  url: string;
+
+  /** Extra request headers, e.g. an Authorization header */
+  headers?: Record<string, string>;
+
+  /** Lowest level of entries sent to the collector. Defaults to every entry. */
+  level?: LogLevel;
+
+  /** Send a batch once it holds this many entries. @default 100 */
+  batchSize?: number;
+
+  /** Send a batch once its oldest entry is this many milliseconds old. @default 1000 */
+  batchInterval?: number;
+
+  /** Retries after a failed POST before the batch is spooled or dropped. @default 3 */
+  maxRetries?: number;
+
+  /** Base delay in milliseconds for exponential backoff between retries. @default 500 */
+  retryDelay?: number;
+
+  /** Upper bound in milliseconds for a single backoff delay. @default 30000 */
+  maxRetryDelay?: number;
+
+  /** Time in milliseconds before a POST is abandoned. @default 10000 */
+  timeout?: number;
+
+  /**
+   * Directory for batches that could not be delivered. Spooled batches are
+   * re-sent at startup and every `resendInterval`. Without a spool
+   * directory, undeliverable batches are dropped.
+   */
+  spoolDir?: string;
+
+  /** Total size in bytes of spooled batches; batches beyond it are dropped. @default 52428800 (50 MB) */
+  maxSpoolSize?: number;
+
+  /** How often in milliseconds spooled batches are re-sent. @default 30000 */
+  resendInterval?: number;
+}
+
+/**
+ * Delivery counters for an HttpTransport, in entries.
+ */
+export interface HttpTransportStats {
+  /** Entries accepted by the collector, including re-sent spooled entries */
+  sent: number;
+
+  /** Entries whose batch could not be delivered after all retries */
+  failed: number;
+
+  /** Failed entries written to the spool directory */
+  spooled: number;
+
+  /** Entries lost: failed and not spooled, or written after close() */
+  dropped: number;
+}
+
+/** Extension of spooled batch files */
+const SPOOL_EXTENSION = '.ndjson';
+
+/**
+ * Error for a response outside the 2xx range.
+ */
+class HttpStatusError extends Error {
+  readonly code: string;
+
+  constructor(readonly status: number) {
+    super(`Collector responded with HTTP ${status}`);
+    this.name = 'HttpStatusError';
+    this.code = `HTTP_${status}`;
+  }
+}
+
+/**
+ * Transport that POSTs entries to a collector in NDJSON batches.
+ *
+ * Entries are always sent as JSON, one per line. A batch is sent when it
+ * reaches `batchSize` entries or `batchInterval` milliseconds, whichever
+ * comes first, and batches are delivered one at a time in order.
+ *
+ * Network errors, timeouts and HTTP 408, 429 and 5xx responses are retried
+ * up to `maxRetries` times with full-jitter exponential backoff. A batch
+ * that still fails is written to `spoolDir` (if set) and re-sent later;
+ * batches rejected with any other status are dropped. Failures are
+ * reported to the console and counted in `getStats()`.
+ *
+ * @example
+ * import { createRequestLogger, HttpTransport } from './middleware';
+ *
+ * const shipper = new HttpTransport({
+ *   url: 'https://logs.internal/ingest',
+ *   headers: { Authorization: `Bearer ${process.env.LOG_TOKEN}` },
+ *   spoolDir: './logs/spool',
+ * });
+ *
+ * app.use(createRequestLogger({ logOnResponse: true, transports: [shipper] }));
+ *
+ * shipper.getStats(); // { sent: 120, failed: 0, spooled: 0, dropped: 0 }
+ */
+export class HttpTransport implements Transport {
+  readonly format: LogFormat = 'json';
+  readonly level?: LogLevel;
+  private readonly url: URL;
+  private readonly headers: Record<string, string>;
+  private readonly batchSize: number;
+  private readonly batchInterval: number;
+  private readonly maxRetries: number;
+  private readonly retryDelay: number;
+  private readonly maxRetryDelay: number;
+  private readonly timeout: number;
+  private readonly spoolDir?: string;
+  private readonly maxSpoolSize: number;
+  private readonly stats: HttpTransportStats = { sent: 0, failed: 0, spooled: 0, dropped: 0 };
+  private queue: string[] = [];
+  private batchTimer?: NodeJS.Timeout;
+  private resendTimer?: NodeJS.Timeout;
+  private backoffTimer?: NodeJS.Timeout;
+  private pendingFlushes = 0;
+  private delivery: Promise<void> = Promise.resolve();
+  private spoolSequence = 0;
+  private closed = false;
+
+  constructor(options: HttpTransportOptions) {
+    this.url = new URL(options.url);
+    this.headers = options.headers ?? {};
+    this.level = options.level;
+    this.batchSize = options.batchSize ?? 100;
+    this.batchInterval = options.batchInterval ?? 1000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryDelay = options.retryDelay ?? 500;
+    this.maxRetryDelay = options.maxRetryDelay ?? 30 * 1000;
+    this.timeout = options.timeout ?? 10 * 1000;
+    this.spoolDir = options.spoolDir;
+    this.maxSpoolSize = options.maxSpoolSize ?? 50 * 1024 * 1024;
+
+    if (this.spoolDir) {
+      // Re-send whatever an earlier process spooled, then keep retrying periodically
+      this.schedule(() => this.resendSpooled());
+      this.resendTimer = setInterval(() => this.schedule(() => this.resendSpooled()), options.resendInterval ?? 30 * 1000);
+      this.resendTimer.unref();
+    }
+  }
+
+  write(entry: LogEntry, formatted: string): void {
+    if (this.closed) {
+      this.stats.dropped += 1;
+      return;
+    }
+
+    this.queue.push(formatted.endsWith('\n') ? formatted : `${formatted}\n`);
+
+    if (this.queue.length >= this.batchSize) {
+      this.sendQueued();
+    } else if (!this.batchTimer) {
+      this.batchTimer = setTimeout(() => this.sendQueued(), this.batchInterval);
+      // A pending batch does not keep the process alive; close() sends it
+      this.batchTimer.unref();
+    }
+  }
+
+  /**
+   * Returns a snapshot of the delivery counters.
+   *
+   * @returns Counts of sent, failed, spooled and dropped entries
+   */
+  getStats(): HttpTransportStats {
+    return { ...this.stats };
+  }
+
+  flush(): Promise<void> {
+    return this.keepAliveUntil(this.sendQueued());
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return this.keepAliveUntil(this.delivery);
+    }
+
+    clearInterval(this.resendTimer);
+    await this.keepAliveUntil(this.sendQueued());
+    this.closed = true;
+  }
+
+  /**
+   * Keeps backoff timers ref'd until a flush() or close() has finished, so
+   * the process does not exit while a retried batch is still to be
+   * delivered or spooled.
+   */
+  private async keepAliveUntil(delivery: Promise<void>): Promise<void> {
+    this.pendingFlushes += 1;
+    this.backoffTimer?.ref();
+
+    try {
+      await delivery;
+    } finally {
+      this.pendingFlushes -= 1;
+      if (this.pendingFlushes === 0) {
+        this.backoffTimer?.unref();
+      }
+    }
+  }
+
+  /**
+   * Moves queued entries into a batch and schedules its delivery.
+   *
+   * @returns Promise that resolves once every scheduled delivery has finished
+   */
+  private sendQueued(): Promise<void> {
+    clearTimeout(this.batchTimer);
+    this.batchTimer = undefined;
+
+    if (this.queue.length > 0) {
+      const batch = this.queue;
+      this.queue = [];
+      this.schedule(() => this.deliver(batch));
+    }
+
+    return this.delivery;
+  }
+
+  /**
+   * Runs a delivery task after every previously scheduled one.
+   */
+  private schedule(task: () => Promise<void>): void {
+    this.delivery = this.delivery.then(task).catch((error: NodeJS.ErrnoException) => {
+      reportHttpError(`Delivery failed: ${error.message}`, error);
+    });
+  }
+
+  /**
+   * Delivers one batch, retrying retryable failures with backoff, then
+   * spooling or dropping it.
+   */
+  private async deliver(batch: string[]): Promise<void> {
+    const body = batch.join('');
+    let lastError: NodeJS.ErrnoException | undefined;
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await this.backoff(attempt);
+      }
+
+      try {
+        await this.post(body);
+        this.stats.sent += batch.length;
+        return;
+      } catch (error) {
+        lastError = error as NodeJS.ErrnoException;
+        if (!isRetryable(lastError)) {
+          break;
+        }
+      }
+    }
+
+    this.stats.failed += batch.length;
+    const error = lastError as NodeJS.ErrnoException;
+
+    if (this.spoolDir && isRetryable(error)) {
+      try {
+        await this.spool(body);
+        this.stats.spooled += batch.length;
+        reportHttpError(`Collector unreachable, spooled ${countEntries(batch.length)} for later delivery`, error);
+        return;
+      } catch (spoolError) {
+        reportHttpError(`Failed to spool ${countEntries(batch.length)}`, spoolError as NodeJS.ErrnoException);
+      }
+    }
+
+    this.stats.dropped += batch.length;
+    reportHttpError(`Failed to deliver batch (${countEntries(batch.length)} dropped)`, error);
+  }
+
+  /**
+   * Full-jitter exponential backoff: a random delay between 0 and
+   * retryDelay * 2^(attempt - 1), capped at maxRetryDelay.
+   */
+  private backoffDelay(attempt: number): number {
+    return Math.random() * Math.min(this.maxRetryDelay, this.retryDelay * 2 ** (attempt - 1));
+  }
+
+  /**
+   * Waits out the backoff delay before a retry. The timer only keeps the
+   * process alive while a flush() or close() is waiting for the batch.
+   */
+  private backoff(attempt: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.backoffTimer = setTimeout(() => {
+        this.backoffTimer = undefined;
+        resolve();
+      }, this.backoffDelay(attempt));
+
+      if (this.pendingFlushes === 0) {
+        this.backoffTimer.unref();
+      }
+    });
+  }
+
+  /**
+   * Writes an undeliverable batch to the spool directory, unless the spool is full.
+   */
+  private async spool(body: string): Promise<void> {
+    const dir = this.spoolDir as string;
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    const spooledBytes = await spoolSize(dir);
+    if (spooledBytes + Buffer.byteLength(body) > this.maxSpoolSize) {
+      throw Object.assign(new Error(`Spool directory ${dir} is full (${spooledBytes} bytes)`), { code: 'ESPOOLFULL' });
+    }
+
+    this.spoolSequence += 1;
+    const file = path.join(dir, `${Date.now()}-${String(this.spoolSequence).padStart(6, '0')}${SPOOL_EXTENSION}`);
+    await fs.promises.writeFile(file, body);
+  }
+
+  /**
+   * Re-sends spooled batches oldest first, stopping at the first failure.
+   */
+  private async resendSpooled(): Promise<void> {
+    const dir = this.spoolDir as string;
+    const files = (await fs.promises.readdir(dir).catch(() => [] as string[]))
+      .filter((file) => file.endsWith(SPOOL_EXTENSION))
+      .sort();
+
+    for (const file of files) {
+      const filePath = path.join(dir, file);
+      const body = await fs.promises.readFile(filePath, 'utf8');
+
+      try {
+        await this.post(body);
+      } catch {
+        // Still unreachable; try again on the next resend
+        return;
+      }
+
+      await fs.promises.unlink(filePath);
+      this.stats.sent += body.split('\n').filter(Boolean).length;
+    }
+  }
+
+  /**
+   * POSTs one NDJSON body and resolves on a 2xx response.
+   */
+  private post(body: string): Promise<void> {
+    const client = this.url.protocol === 'https:' ? https : http;
+
+    return new Promise<void>((resolve, reject) => {
+      const req = client.request(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-ndjson',
+          'Content-Length': Buffer.byteLength(body),
+          ...this.headers,
+        },
+      }, (res) => {
+        // Drain the response so the socket can be reused
+        res.resume();
+        res.on('end', () => {
+          const status = res.statusCode ?? 0;
+          if (status >= 200 && status < 300) {
+            resolve();
+          } else {
+            reject(new HttpStatusError(status));
+          }
+        });
+        res.on('error', reject);
+      });
+
+      req.setTimeout(this.timeout, () => {
+        req.destroy(Object.assign(new Error(`Request timed out after ${this.timeout}ms`), { code: 'ETIMEDOUT' }));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
+
+/**
+ * Network errors, timeouts and HTTP 408, 429 and 5xx are worth retrying;
+ * other HTTP statuses mean the collector rejected the batch.
+ */
+function isRetryable(error: NodeJS.ErrnoException): boolean {
+  if (!(error instanceof HttpStatusError)) {
+    return true;
+  }
+  return error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+async function spoolSize(dir: string): Promise<number> {
+  let total = 0;
+  for (const file of await fs.promises.readdir(dir)) {
+    if (file.endsWith(SPOOL_EXTENSION)) {
+      total += (await fs.promises.stat(path.join(dir, file)).catch(() => ({ size: 0 }))).size;
+    }
+  }
+  return total;
+}
+
+function countEntries(count: number): string {
+  return `${count} ${count === 1 ? 'entry' : 'entries'}`;
+}
+
+function reportHttpError(message: string, error: NodeJS.ErrnoException): void {
+  console.error(`[Request Logger] HTTP transport: ${message}: ${error.message} (Error code: ${error.code ?? 'UNKNOWN'})`);
+}
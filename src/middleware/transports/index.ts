@@ -0,0 +1,11 @@
+/**
+ * Built-in transports for the request logging middleware.
+ *
+ * @module middleware/transports
+ */
+
+export { FileTransport, FileTransportOptions } from './file';
+export { StreamTransport, StreamTransportOptions } from './stream';
+export { ConsoleTransport, ConsoleTransportOptions } from './console';
+export { SyslogTransport, SyslogTransportOptions, SyslogFacility, SyslogProtocol } from './syslog';
+export { HttpTransport, HttpTransportOptions, HttpTransportStats } from './http';
@@ -0,0 +1,128 @@
+/**
+ * Stream Transport
+ *
+ * Writes entries to any Node.js Writable stream.
+ *
+ * @module middleware/transports/stream
+ */
+
+import { once } from 'events';
+import { Writable } from 'stream';
+import { LogEntry, LogFormat, LogFormatter, LogLevel, Transport } from '../types';
+
+/**
+ * Options for StreamTransport.
+ */
+export interface StreamTransportOptions {
+  /** Destination stream (a socket, a PassThrough, a third-party log shipper...) */
+  stream: Writable;
+
+  /** Format for entries written to this stream. Defaults to the logger's format. */
+  format?: LogFormat | LogFormatter;
+
+  /** Lowest level of entries written to this transport. Defaults to every entry. */
+  level?: LogLevel;
+
+  /**
+   * End the stream when the transport is closed. Leave disabled for streams
+   * the application keeps using, such as process.stdout.
+   *
+   * @default false
+   */
+  end?: boolean;
+}
+
+/**
+ * Number of open transports writing to each stream, which share one
+ * 'error' listener, so many loggers on process.stdout add a single one
+ */
+const streamUsers = new WeakMap<Writable, number>();
+
+/**
+ * Reports a stream error to the console.
+ */
+function reportStreamError(error: NodeJS.ErrnoException): void {
+  console.error(
+    `[Request Logger] Stream transport error: ${error.message} (Error code: ${error.code ?? 'UNKNOWN'})`
+  );
+}
+
+/**
+ * Transport that writes each formatted entry to a Writable stream.
+ *
+ * Stream errors are reported to the console and never thrown into the
+ * request path; the listener reporting them is shared by the transports
+ * on a stream and removed when the last of them is closed. `flush()` waits
+ * for the stream to drain when it has buffered past its high-water mark.
+ *
+ * @example
+ * import { PassThrough } from 'stream';
+ * import { createRequestLogger, StreamTransport } from './middleware';
+ *
+ * const sink = new PassThrough();
+ * app.use(createRequestLogger({
+ *   transports: [new StreamTransport({ stream: sink, format: 'json' })],
+ * }));
+ */
+export class StreamTransport implements Transport {
+  readonly format?: LogFormat | LogFormatter;
+  readonly level?: LogLevel;
+  protected readonly stream: Writable;
+  private readonly endOnClose: boolean;
+  private listening = true;
+
+  constructor(options: StreamTransportOptions) {
+    this.format = options.format;
+    this.level = options.level;
+    this.stream = options.stream;
+    this.endOnClose = options.end ?? false;
+
+    const users = streamUsers.get(this.stream) ?? 0;
+    if (users === 0) {
+      this.stream.on('error', reportStreamError);
+    }
+    streamUsers.set(this.stream, users + 1);
+  }
+
+  write(entry: LogEntry, formatted: string): void {
+    if (this.stream.destroyed || this.stream.writableEnded) {
+      return;
+    }
+
+    this.stream.write(formatted);
+  }
+
+  async flush(): Promise<void> {
+    if (this.stream.writableNeedDrain && !this.stream.destroyed) {
+      await once(this.stream, 'drain').catch(() => undefined);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+
+    if (this.endOnClose && !this.stream.writableEnded && !this.stream.destroyed) {
+      await new Promise<void>((resolve) => this.stream.end(resolve));
+    }
+
+    this.stopListening();
+  }
+
+  /**
+   * Releases this transport's share of the stream's error listener, once.
+   */
+  private stopListening(): void {
+    if (!this.listening) {
+      return;
+    }
+    this.listening = false;
+
+    const users = (streamUsers.get(this.stream) ?? 1) - 1;
+    if (users === 0) {
+      this.stream.removeListener('error', reportStreamError);
+      streamUsers.delete(this.stream);
+    } else {
+      streamUsers.set(this.stream, users);
+    }
+  }
+}
@@ -0,0 +1,485 @@
+/**
+ * Syslog Transport
+ *
+ * Sends entries to a syslog collector as RFC 5424 (or legacy RFC 3164)
+ * messages over UDP, TCP or a local Unix socket.
+ *
+ * @module middleware/transports/syslog
+ */
+
+import * as dgram from 'dgram';
+import * as net from 'net';
+import * as os from 'os';
+import { LogEntry, LogFormat, LogFormatter, LogLevel, Transport } from '../types';
+
+/**
+ * Syslog facility names (RFC 5424 section 6.2.1).
+ */
+export type SyslogFacility =
+  | 'kern' | 'user' | 'mail' | 'daemon' | 'auth' | 'syslog' | 'lpr' | 'news'
+  | 'uucp' | 'cron' | 'authpriv' | 'ftp'
+  | 'local0' | 'local1' | 'local2' | 'local3' | 'local4' | 'local5' | 'local6' | 'local7';
+
+/**
+ * How messages reach the collector.
+ */
+export type SyslogProtocol = 'udp' | 'tcp' | 'unix';
+
+/**
+ * Options for SyslogTransport.
+ */
+export interface SyslogTransportOptions {
+  /**
+   * Network protocol. 'unix' connects to a local socket such as /dev/log.
+   *
+   * @default 'udp'
+   */
+  protocol?: SyslogProtocol;
+
+  /** Collector host for 'udp' and 'tcp'. @default 'localhost' */
+  host?: string;
+
+  /** Collector port for 'udp' and 'tcp'. @default 514 */
+  port?: number;
+
+  /** Socket path for 'unix'. @default '/dev/log' */
+  path?: string;
+
+  /**
+   * Message format: RFC 5424, or the legacy BSD format of RFC 3164.
+   *
+   * @default '5424'
+   */
+  rfc?: '5424' | '3164';
+
+  /** Facility of every message. @default 'user' */
+  facility?: SyslogFacility;
+
+  /** APP-NAME (RFC 5424) or TAG (RFC 3164). @default 'request-logger' */
+  appName?: string;
+
+  /** HOSTNAME of every message. @default os.hostname() */
+  hostname?: string;
+
+  /** PROCID of every message. @default process.pid */
+  procId?: string | number;
+
+  /** MSGID of RFC 5424 messages. @default 'access' */
+  msgId?: string;
+
+  /**
+   * SD-ID of the structured data element carrying the entry's fields
+   * (RFC 5424 only). Custom IDs must have the form name@<enterprise number>.
+   *
+   * @default 'request@32473'
+   */
+  structuredDataId?: string;
+
+  /**
+   * Stream framing for 'tcp' and 'unix': RFC 6587 octet counting
+   * ("<length> <message>") or one message per line.
+   *
+   * @default 'octet-counting' for 'tcp', 'newline' for 'unix'
+   */
+  framing?: 'octet-counting' | 'newline';
+
+  /** Initial delay in milliseconds before reconnecting a dropped stream connection; doubles on each failure up to 30 seconds. @default 1000 */
+  reconnectInterval?: number;
+
+  /** Messages held in memory while a stream connection is down; the oldest are dropped beyond this. @default 1000 */
+  maxQueueSize?: number;
+
+  /** Format of the message body. Defaults to the logger's format. */
+  format?: LogFormat | LogFormatter;
+
+  /** Lowest level of entries written to this transport. Defaults to every entry. */
+  level?: LogLevel;
+}
+
+/** Numeric facility codes */
+const FACILITIES: Record<SyslogFacility, number> = {
+  kern: 0, user: 1, mail: 2, daemon: 3, auth: 4, syslog: 5, lpr: 6, news: 7,
+  uucp: 8, cron: 9, authpriv: 10, ftp: 11,
+  local0: 16, local1: 17, local2: 18, local3: 19, local4: 20, local5: 21, local6: 22, local7: 23,
+};
+
+/** Severity codes used for request entries */
+const SEVERITY_ERROR = 3;
+const SEVERITY_WARNING = 4;
+const SEVERITY_INFO = 6;
+const SEVERITY_DEBUG = 7;
+
+/** Severity codes by entry level */
+const LEVEL_SEVERITIES: Record<LogLevel, number> = {
+  debug: SEVERITY_DEBUG, info: SEVERITY_INFO, warn: SEVERITY_WARNING, error: SEVERITY_ERROR,
+};
+
+const MAX_RECONNECT_INTERVAL = 30 * 1000;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Header fields shared by every message from one transport.
+ */
+export interface SyslogMessageOptions {
+  rfc: '5424' | '3164';
+  facility: SyslogFacility;
+  appName: string;
+  hostname: string;
+  procId: string;
+  msgId: string;
+  structuredDataId: string;
+}
+
+/**
+ * Maps a log entry to a syslog severity. Entries with a level map to debug,
+ * info, warning or err; otherwise err for 5xx and aborted requests,
+ * warning for 4xx and info for the rest.
+ *
+ * @param entry - The log entry
+ * @returns Numeric severity (RFC 5424 section 6.2.1)
+ */
+export function syslogSeverity(entry: LogEntry): number {
+  if (entry.level) {
+    return LEVEL_SEVERITIES[entry.level];
+  }
+  if (entry.aborted || (entry.status ?? 0) >= 500) {
+    return SEVERITY_ERROR;
+  }
+  if ((entry.status ?? 0) >= 400) {
+    return SEVERITY_WARNING;
+  }
+  return SEVERITY_INFO;
+}
+
+/**
+ * Builds a syslog message (without transport framing) for one entry.
+ *
+ * RFC 5424 messages carry the entry's fields as structured data, so
+ * collectors can index them without parsing the body:
+ *
+ *   <14>1 2026-10-19T13:55:36.123Z web-1 request-logger 4242 access [request@32473 method="GET" url="/api/books" status="200"] {"timestamp":...}
+ *
+ * RFC 3164 messages use the BSD header and local time:
+ *
+ *   <14>Oct 19 13:55:36 web-1 request-logger[4242]: {"timestamp":...}
+ *
+ * @param entry - The log entry
+ * @param body - The entry rendered in the transport's format
+ * @param options - Message header fields
+ * @returns The syslog message
+ */
+export function formatSyslogMessage(entry: LogEntry, body: string, options: SyslogMessageOptions): string {
+  const priority = FACILITIES[options.facility] * 8 + syslogSeverity(entry);
+  const message = body.replace(/\r?\n$/, '');
+
+  if (options.rfc === '3164') {
+    const tag = options.appName.replace(/[^A-Za-z0-9_.-]/g, '').slice(0, 32) || 'node';
+    return `<${priority}>${formatBsdTimestamp(entry.timestamp)} ${headerField(options.hostname, 255)} ${tag}[${options.procId}]: ${message}`;
+  }
+
+  return [
+    `<${priority}>1`,
+    entry.timestamp || '-',
+    headerField(options.hostname, 255),
+    headerField(options.appName, 48),
+    headerField(options.procId, 128),
+    headerField(options.msgId, 32),
+    formatStructuredData(entry, options.structuredDataId),
+    message,
+  ].join(' ');
+}
+
+/**
+ * Transport that sends each entry to a syslog collector.
+ *
+ * - 'udp' sends one datagram per message.
+ * - 'tcp' keeps one connection open and frames messages with octet counting
+ *   (RFC 6587). When the connection drops, messages are queued in memory and
+ *   the transport reconnects with exponential backoff.
+ * - 'unix' connects to a local socket the same way. Node.js can only open
+ *   stream (SOCK_STREAM) Unix sockets, so the collector must listen with a
+ *   stream socket, e.g. syslog-ng's unix-stream("/dev/log").
+ *
+ * Sockets do not keep the process alive on their own; call `close()` on
+ * shutdown to send queued messages. Errors are reported to the console and
+ * never thrown into the request path.
+ *
+ * @example
+ * import { createRequestLogger, SyslogTransport } from './middleware';
+ *
+ * app.use(createRequestLogger({
+ *   logOnResponse: true,
+ *   transports: [
+ *     new SyslogTransport({ protocol: 'tcp', host: 'logs.internal', port: 6514, facility: 'local0' }),
+ *   ],
+ * }));
+ */
+export class SyslogTransport implements Transport {
+  readonly format?: LogFormat | LogFormatter;
+  readonly level?: LogLevel;
+  private readonly messageOptions: SyslogMessageOptions;
+  private readonly connection: DatagramConnection | StreamConnection;
+
+  constructor(options: SyslogTransportOptions = {}) {
+    const protocol = options.protocol ?? 'udp';
+
+    this.format = options.format;
+    this.level = options.level;
+    this.messageOptions = {
+      rfc: options.rfc ?? '5424',
+      facility: options.facility ?? 'user',
+      appName: options.appName ?? 'request-logger',
+      hostname: options.hostname ?? os.hostname(),
+      procId: String(options.procId ?? process.pid),
+      msgId: options.msgId ?? 'access',
+      structuredDataId: options.structuredDataId ?? 'request@32473',
+    };
+
+    if (protocol === 'udp') {
+      this.connection = new DatagramConnection(options.host ?? 'localhost', options.port ?? 514);
+    } else {
+      const target: net.NetConnectOpts = protocol === 'unix'
+        ? { path: options.path ?? '/dev/log' }
+        : { host: options.host ?? 'localhost', port: options.port ?? 514 };
+
+      this.connection = new StreamConnection(target, {
+        octetCounting: (options.framing ?? (protocol === 'unix' ? 'newline' : 'octet-counting')) === 'octet-counting',
+        reconnectInterval: options.reconnectInterval ?? 1000,
+        maxQueueSize: options.maxQueueSize ?? 1000,
+      });
+    }
+  }
+
+  write(entry: LogEntry, formatted: string): void {
+    this.connection.send(formatSyslogMessage(entry, formatted, this.messageOptions));
+  }
+
+  flush(): Promise<void> {
+    return this.connection.flush();
+  }
+
+  close(): Promise<void> {
+    return this.connection.close();
+  }
+}
+
+/**
+ * Sends each message as one UDP datagram.
+ */
+class DatagramConnection {
+  private readonly socket: dgram.Socket;
+  private readonly inFlight = new Set<Promise<void>>();
+  private closed = false;
+
+  constructor(private readonly host: string, private readonly port: number) {
+    this.socket = dgram.createSocket(net.isIPv6(host) ? 'udp6' : 'udp4');
+    this.socket.on('error', reportSyslogError);
+    this.socket.unref();
+  }
+
+  send(message: string): void {
+    if (this.closed) {
+      return;
+    }
+
+    const sent = new Promise<void>((resolve) => {
+      this.socket.send(message, this.port, this.host, (error) => {
+        if (error) {
+          reportSyslogError(error);
+        }
+        resolve();
+      });
+    });
+
+    this.inFlight.add(sent);
+    sent.then(() => this.inFlight.delete(sent));
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all(this.inFlight);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    await this.flush();
+    this.closed = true;
+    await new Promise<void>((resolve) => this.socket.close(() => resolve()));
+  }
+}
+
+/**
+ * Keeps one TCP or Unix stream connection open, queueing messages and
+ * reconnecting with exponential backoff while it is down.
+ */
+class StreamConnection {
+  private socket?: net.Socket;
+  private connected = false;
+  private closed = false;
+  private queue: string[] = [];
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectDelay: number;
+
+  constructor(
+    private readonly target: net.NetConnectOpts,
+    private readonly options: { octetCounting: boolean; reconnectInterval: number; maxQueueSize: number }
+  ) {
+    this.reconnectDelay = options.reconnectInterval;
+  }
+
+  send(message: string): void {
+    if (this.closed) {
+      return;
+    }
+
+    const framed = this.options.octetCounting ? `${Buffer.byteLength(message)} ${message}` : `${message}\n`;
+
+    if (this.connected && this.socket) {
+      this.socket.write(framed);
+      return;
+    }
+
+    this.queue.push(framed);
+    if (this.queue.length > this.options.maxQueueSize) {
+      this.queue.shift();
+      reportDroppedMessages(1, 'queue full');
+    }
+
+    // Connect now unless a connection attempt or a backoff delay is already pending
+    if (!this.socket && !this.reconnectTimer) {
+      this.connect();
+    }
+  }
+
+  async flush(): Promise<void> {
+    const socket = this.socket;
+    if (this.connected && socket && socket.writableNeedDrain) {
+      await new Promise<void>((resolve) => {
+        socket.once('drain', resolve);
+        socket.once('close', resolve);
+      });
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+
+    const socket = this.socket;
+    if (socket && socket.connecting) {
+      // Let the pending attempt finish so queued messages are sent
+      await new Promise<void>((resolve) => {
+        socket.once('connect', resolve);
+        socket.once('close', resolve);
+      });
+    }
+
+    if (socket && this.connected) {
+      await new Promise<void>((resolve) => socket.end(resolve));
+    }
+
+    if (this.queue.length > 0) {
+      reportDroppedMessages(this.queue.length, 'transport closed before the connection was restored');
+      this.queue = [];
+    }
+  }
+
+  private connect(): void {
+    const socket = net.connect(this.target);
+    this.socket = socket;
+    socket.unref();
+
+    socket.on('connect', () => {
+      this.connected = true;
+      this.reconnectDelay = this.options.reconnectInterval;
+
+      // Send everything queued while disconnected, in order
+      const queued = this.queue;
+      this.queue = [];
+      for (const message of queued) {
+        socket.write(message);
+      }
+    });
+
+    socket.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'EPROTOTYPE' && 'path' in this.target) {
+        error.message = `${this.target.path} is a datagram socket; only stream sockets are supported`;
+      }
+      reportSyslogError(error);
+    });
+
+    socket.on('close', () => {
+      this.connected = false;
+      this.socket = undefined;
+
+      if (!this.closed) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private scheduleReconnect(): void {
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(delay * 2, MAX_RECONNECT_INTERVAL);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+
+      // Stay disconnected until there is something to send
+      if (this.queue.length > 0) {
+        this.connect();
+      }
+    }, delay);
+    this.reconnectTimer.unref();
+  }
+}
+
+/**
+ * Renders the entry's fields as one RFC 5424 structured data element.
+ */
+function formatStructuredData(entry: LogEntry, id: string): string {
+  const params = Object.entries(entry)
+    .filter(([name, value]) => name !== 'timestamp' && value !== undefined)
+    .map(([name, value]) => {
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      // PARAM-VALUE escapes '"', '\' and ']'
+      return `${name.replace(/[^\x21-\x7e]|[=\]"]/g, '').slice(0, 32)}="${text.replace(/["\\\]]/g, '\\$&')}"`;
+    });
+
+  return `[${[id, ...params].join(' ')}]`;
+}
+
+/**
+ * Restricts a header field to printable US-ASCII without spaces, using the
+ * NILVALUE '-' when empty.
+ */
+function headerField(value: string, maxLength: number): string {
+  return value.replace(/[^\x21-\x7e]/g, '').slice(0, maxLength) || '-';
+}
+
+/**
+ * Formats an ISO timestamp as an RFC 3164 timestamp in local time, e.g. 'Oct  9 13:55:36'.
+ */
+function formatBsdTimestamp(timestamp: string): string {
+  const date = timestamp ? new Date(timestamp) : new Date();
+  const time = Number.isNaN(date.getTime()) ? new Date() : date;
+  const pad = (value: number): string => String(value).padStart(2, '0');
+
+  return `${MONTHS[time.getMonth()]} ${String(time.getDate()).padStart(2, ' ')} ${pad(time.getHours())}:${pad(time.getMinutes())}:${pad(time.getSeconds())}`;
+}
+
+function reportSyslogError(error: NodeJS.ErrnoException): void {
+  console.error(`[Request Logger] Syslog transport error: ${error.message} (Error code: ${error.code ?? 'UNKNOWN'})`);
+}
+
+function reportDroppedMessages(count: number, reason: string): void {
+  console.error(`[Request Logger] Syslog transport dropped ${count} ${count === 1 ? 'entry' : 'entries'}: ${reason}`);
+}
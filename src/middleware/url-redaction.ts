@@ -0,0 +1,167 @@
+/**
+ * URL Redaction
+ *
+ * Rewrites request URLs before they are logged, so secrets and personal
+ * data in query strings and path segments never reach a formatter.
+ *
+ * @module middleware/url-redaction
+ */
+
+import { UrlDetector } from './types';
+
+/** Replacement for redacted query values and path segments */
+export const URL_REDACTED = '[REDACTED]';
+
+/**
+ * Options for redactUrl.
+ */
+export interface UrlRedactionOptions {
+  /** Query parameters whose values are always redacted: names (case-insensitive) or patterns */
+  redactQueryParams: ReadonlyArray<string | RegExp>;
+
+  /** Built-in detectors or patterns checked against path segments and query values */
+  redactPathPatterns: ReadonlyArray<UrlDetector | RegExp>;
+}
+
+/**
+ * Built-in detectors for secrets and personal data, by name.
+ */
+const detectors: Record<UrlDetector, (value: string) => boolean> = {
+  email: (value) => /[^\s@/?#&=]+@[^\s@/?#&=]+\.[A-Za-z]{2,}/.test(value),
+  jwt: (value) => /eyJ[\w-]*\.[\w-]+\.[\w-]*/.test(value),
+  card: (value) => [...value.matchAll(/\d(?:[ -]?\d){12,18}/g)].some(([digits]) => passesLuhn(digits.replace(/\D/g, ''))),
+  secret: (value) => isLongHex(value) || isLongBase64(value),
+};
+
+/**
+ * Redacts secrets and personal data in a request URL.
+ *
+ * - Query parameters named in redactQueryParams have their values replaced,
+ *   every time they appear. Names are compared after percent-decoding,
+ *   case-insensitively, and without a trailing '[]' ('token[]' matches 'token').
+ * - Path segments and remaining query values matching a redactPathPatterns
+ *   rule are replaced as a whole. Values are checked both as written and
+ *   percent-decoded, so 'jane%40example.com' is caught as an email address.
+ *
+ * Everything else is kept exactly as received, including its encoding.
+ *
+ * @param url - The request URL (path and query string), or an absolute URL such as a Referer
+ * @param options - Parameters and patterns to redact
+ * @returns The URL with sensitive parts replaced by [REDACTED]
+ *
+ * @example
+ * redactUrl('/users/jane%40example.com/reset?token=abc123&lang=en', {
+ *   redactQueryParams: ['token'],
+ *   redactPathPatterns: ['email'],
+ * });
+ * // '/users/[REDACTED]/reset?token=[REDACTED]&lang=en'
+ */
+export function redactUrl(url: string, options: UrlRedactionOptions): string {
+  if (options.redactQueryParams.length === 0 && options.redactPathPatterns.length === 0) {
+    return url;
+  }
+
+  const queryStart = url.indexOf('?');
+  const path = queryStart === -1 ? url : url.slice(0, queryStart);
+  const query = queryStart === -1 ? undefined : url.slice(queryStart + 1);
+
+  const redactedPath = path
+    .split('/')
+    .map((segment) => (segment !== '' && matchesPattern(segment, options) ? URL_REDACTED : segment))
+    .join('/');
+
+  if (query === undefined) {
+    return redactedPath;
+  }
+
+  const redactedQuery = query
+    .split('&')
+    .map((pair) => {
+      const separator = pair.indexOf('=');
+      if (separator === -1) {
+        return pair;
+      }
+
+      const name = pair.slice(0, separator);
+      const value = pair.slice(separator + 1);
+      if (value === '') {
+        return pair;
+      }
+
+      return isRedactedParam(name, options) || matchesPattern(value, options) ? `${name}=${URL_REDACTED}` : pair;
+    })
+    .join('&');
+
+  return `${redactedPath}?${redactedQuery}`;
+}
+
+/**
+ * Checks a query parameter name against redactQueryParams.
+ */
+function isRedactedParam(rawName: string, options: UrlRedactionOptions): boolean {
+  const name = decodeQueryComponent(rawName).replace(/\[[^\]]*\]$/, '');
+
+  return options.redactQueryParams.some((rule) =>
+    typeof rule === 'string' ? rule.toLowerCase() === name.toLowerCase() : rule.test(name)
+  );
+}
+
+/**
+ * Checks a path segment or query value against redactPathPatterns, as
+ * written and decoded.
+ */
+function matchesPattern(raw: string, options: UrlRedactionOptions): boolean {
+  const decoded = decodeQueryComponent(raw);
+  const candidates = decoded === raw ? [raw] : [raw, decoded];
+
+  return options.redactPathPatterns.some((rule) =>
+    candidates.some((candidate) => (typeof rule === 'string' ? detectors[rule](candidate) : rule.test(candidate)))
+  );
+}
+
+/**
+ * Percent-decodes a URL component ('+' as space), keeping it unchanged if
+ * it is not valid percent-encoding.
+ */
+function decodeQueryComponent(component: string): string {
+  try {
+    return decodeURIComponent(component.replace(/\+/g, ' '));
+  } catch {
+    return component;
+  }
+}
+
+/**
+ * Luhn checksum used by payment card numbers.
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * 32 or more hex digits in a row, e.g. an API key or a SHA-256 digest.
+ */
+function isLongHex(value: string): boolean {
+  return /(?:^|[^0-9a-fA-F])[0-9a-fA-F]{32,}(?![0-9a-fA-F])/.test(value);
+}
+
+/**
+ * 32 or more base64 characters in a row mixing upper case, lower case and
+ * digits, as random tokens do (words and slugs rarely do).
+ */
+function isLongBase64(value: string): boolean {
+  return [...value.matchAll(/[A-Za-z0-9+/]{32,}/g)].some(
+    ([run]) => /[A-Z]/.test(run) && /[a-z]/.test(run) && /\d/.test(run)
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * W3C Extended Log File Format
+ *
+ * IIS-style access logs: each file starts with `#Version`, `#Date` and
+ * `#Fields` directives, followed by one space-separated row per request
+ * with the columns in the declared order.
+ *
+ * @module middleware/w3c
+ */
+
+import { DEFAULT_CONFIG } from './constants';
+import { HeaderRedactionOptions, loggedHeaderValue } from './headers';
+import { FormatterContext, LogEntry, LogFormatter } from './types';
+
+/**
+ * Computes the value of one W3C column for an entry.
+ */
+type FieldFunction = (entry: LogEntry, context?: FormatterContext) => string | number | undefined;
+
+/**
+ * Columns by field identifier. Request and response headers are handled
+ * separately as cs(Header) and sc(Header).
+ */
+const fields = new Map<string, FieldFunction>([
+  ['date', (entry) => formatW3cDateTime(entry.timestamp)?.slice(0, 10)],
+  ['time', (entry) => formatW3cDateTime(entry.timestamp)?.slice(11)],
+  ['c-ip', (entry) => entry.ip],
+  ['s-ip', (entry, context) => context?.req.socket?.localAddress],
+  ['s-port', (entry, context) => context?.req.socket?.localPort],
+  ['cs-method', (entry) => entry.method],
+  ['cs-uri', (entry) => entry.url],
+  ['cs-uri-stem', (entry) => splitUrl(entry.url)[0]],
+  ['cs-uri-query', (entry) => splitUrl(entry.url)[1]],
+  ['cs-version', (entry, context) => (context?.req.httpVersion ? `HTTP/${context.req.httpVersion}` : undefined)],
+  ['sc-status', (entry) => entry.status],
+  ['sc-bytes', (entry) => entry.responseBytes],
+  ['cs-bytes', (entry) => entry.requestBytes],
+  ['time-taken', (entry) => (entry.durationMs === undefined ? undefined : Math.round(entry.durationMs))],
+]);
+
+/** Matches cs(Header) and sc(Header) */
+const HEADER_FIELD_PATTERN = /^(cs|sc)\(([^()\s]+)\)$/;
+
+/**
+ * Creates a W3C Extended Log File Format formatter for the given columns.
+ *
+ * The formatter renders one row per entry and has a `header` that returns
+ * the `#Version`, `#Date` and `#Fields` directives, which file transports
+ * write at the top of every new (or rotated) file. Dates and times are UTC;
+ * time-taken is in milliseconds, as IIS writes it. Missing values are
+ * written as '-' and whitespace inside values as '+'.
+ *
+ * Unknown fields are reported with a warning and always written as '-',
+ * so rows keep the declared column count. Header columns are redacted
+ * as in captured headers: those listed in redactHeaders, and the Referer
+ * URL like request URLs.
+ *
+ * @param fieldNames - Column identifiers, e.g. ['date', 'time', 'cs-method', 'cs(User-Agent)']
+ * @param options - Headers and URL parts to redact, and how; defaults to the default configuration
+ * @returns Formatter with a header for the declared columns
+ *
+ * @example
+ * const formatter = createW3cFormatter(['date', 'time', 'cs-method', 'cs-uri-stem', 'sc-status']);
+ * formatter.header?.(new Date());
+ * // '#Version: 1.0\n#Date: 2026-10-19 13:55:36\n#Fields: date time cs-method cs-uri-stem sc-status\n'
+ * formatter(entry, { req, res });
+ * // '2026-10-19 13:55:36 GET /api/books 200\n'
+ */
+export function createW3cFormatter(fieldNames: readonly string[], options: HeaderRedactionOptions = DEFAULT_CONFIG): LogFormatter {
+  const columns = fieldNames.map((name) => resolveField(name, options));
+  const directive = `#Fields: ${fieldNames.join(' ')}\n`;
+
+  const formatter: LogFormatter = (logEntry, context) =>
+    columns.map((column) => formatW3cValue(column(logEntry, context))).join(' ') + '\n';
+
+  formatter.header = (created) =>
+    `#Version: 1.0\n#Date: ${formatW3cDateTime(created.toISOString())}\n${directive}`;
+
+  return formatter;
+}
+
+/**
+ * Checks whether a value is a usable W3C field list: a non-empty array of
+ * field identifiers without whitespace.
+ *
+ * @param value - Candidate w3cFields option
+ * @returns True if the value can be passed to createW3cFormatter
+ */
+export function isW3cFieldList(value: unknown): value is string[] {
+  return Array.isArray(value)
+    && value.length > 0
+    && value.every((field) => typeof field === 'string' && /^\S+$/.test(field));
+}
+
+/**
+ * W3C formatter with the default columns, registered as the 'w3c' format.
+ */
+export const formatAsW3c = createW3cFormatter(DEFAULT_CONFIG.w3cFields);
+
+/**
+ * Looks up the function for a field identifier.
+ */
+function resolveField(name: string, options: HeaderRedactionOptions): FieldFunction {
+  const fn = fields.get(name.toLowerCase());
+  if (fn) {
+    return fn;
+  }
+
+  const header = HEADER_FIELD_PATTERN.exec(name);
+  if (header) {
+    const [, direction, headerName] = header;
+    return direction.toLowerCase() === 'cs'
+      ? (entry, context) => requestHeader(entry, context, headerName.toLowerCase(), options)
+      : (entry, context) => loggedHeaderValue(headerName, context?.res.getHeader(headerName), options);
+  }
+
+  console.warn(`Unknown W3C field "${name}". It will be logged as "-".`);
+  return () => undefined;
+}
+
+/**
+ * Reads a request header, falling back to the captured entry fields when
+ * the formatter is called without a request.
+ */
+function requestHeader(
+  entry: LogEntry,
+  context: FormatterContext | undefined,
+  name: string,
+  options: HeaderRedactionOptions
+): string | undefined {
+  const value = loggedHeaderValue(name, context?.req.headers[name], options);
+  if (value !== undefined) {
+    return value;
+  }
+
+  if (name === 'user-agent') {
+    return entry.userAgent;
+  }
+  return name === 'referer' ? entry.referer : undefined;
+}
+
+/**
+ * Splits a URL into its path and query string (without the '?').
+ */
+function splitUrl(url: string): [string, string | undefined] {
+  const index = url.indexOf('?');
+  return index === -1 ? [url, undefined] : [url.slice(0, index), url.slice(index + 1)];
+}
+
+/**
+ * Formats an ISO timestamp as 'yyyy-mm-dd hh:mm:ss' in UTC, or undefined
+ * for an invalid timestamp.
+ */
+function formatW3cDateTime(timestamp: string): string | undefined {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Writes a column value: '-' when missing or empty, with whitespace and
+ * control characters replaced by '+' so the row stays space-separated.
+ */
+function formatW3cValue(value: string | number | undefined): string {
+  if (value === undefined || value === '') {
+    return '-';
+  }
+  return String(value).replace(/[\s\x00-\x1f\x7f]/g, '+');
+}
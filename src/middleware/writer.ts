@@ -0,0 +1,514 @@
+/**
+ * Buffered Log File Writer
+ *
+ * Keeps a single append-mode WriteStream open per log file and batches
+ * formatted entries in memory, so the request path never waits on disk I/O.
+ *
+ * @module middleware/writer
+ */
+
+import * as fs from 'fs';
+import { once } from 'events';
+import * as path from 'path';
+import {
+  compressRotatedFile,
+  findPendingRotations,
+  removeExpiredLogFiles,
+  resolveLogFilePath,
+  stagingPath,
+} from './rotation';
+import { RotationFrequency } from './types';
+
+/**
+ * Options controlling when buffered entries are flushed to disk.
+ */
+export interface FileWriterOptions {
+  /**
+   * Maximum time (milliseconds) an entry may wait in memory before being flushed.
+   */
+  flushInterval: number;
+
+  /**
+   * Number of buffered characters that triggers an immediate flush.
+   */
+  maxBufferSize: number;
+
+  /**
+   * Size in bytes after which the file is rotated. 0 disables rotation.
+   */
+  maxFileSize: number;
+
+  /**
+   * Number of compressed archives kept when rotating.
+   */
+  maxFiles: number;
+
+  /**
+   * Start a new date-stamped file every day or hour ('none' disables time-based rotation).
+   */
+  rotationFrequency: RotationFrequency;
+
+  /**
+   * Days of date-stamped files to keep. 0 keeps files forever.
+   */
+  retentionDays: number;
+
+  /**
+   * Called when a batch could not be written, or a rotation or retention step failed.
+   *
+   * @param error - The file system error, with its original `code` preserved
+   * @param droppedEntries - Number of entries lost (0 for rotation and
+   * retention failures, which never lose entries)
+   */
+  onError: (error: NodeJS.ErrnoException, droppedEntries: number) => void;
+}
+
+/**
+ * A formatted entry waiting in the queue, with the time it was queued.
+ */
+interface QueuedEntry {
+  text: string;
+  time: number;
+}
+
+/** How often expired files are swept when retentionDays is set */
+const RETENTION_SWEEP_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Buffered, append-only writer for a log file.
+ *
+ * Entries passed to `write()` are queued in memory and written in order as
+ * one batch when either `flushInterval` elapses or `maxBufferSize` is reached.
+ * Batches are written sequentially, so entries are never interleaved or split.
+ *
+ * The log directory is created and the stream opened lazily on the first
+ * flush, and reopened on the next flush after a write error.
+ *
+ * When `maxFileSize` is set, a batch is split at entry boundaries so that no
+ * file exceeds the limit (unless a single entry is larger than it). The full
+ * file is renamed aside and compressed in the background while new entries
+ * go to a fresh file; see the rotation module for the naming scheme.
+ *
+ * When `rotationFrequency` is set, the log file path is a pattern and each
+ * entry goes to the file for the day (or hour) in which it was queued.
+ * Because files are opened in append mode and their size is read on open,
+ * a process restarted mid-period carries on in the same file.
+ *
+ * A header set with `setHeader()` is written at the top of every file the
+ * writer starts: new files, each period's file and the fresh file after a
+ * size rotation. Files that already have content are not given another.
+ *
+ * @example
+ * const writer = new BufferedFileWriter('./logs/requests.log', {
+ *   flushInterval: 50,
+ *   maxBufferSize: 64 * 1024,
+ *   maxFileSize: 10 * 1024 * 1024,
+ *   maxFiles: 5,
+ *   rotationFrequency: 'daily',
+ *   retentionDays: 14,
+ *   onError: (error, dropped) => console.error(error.message, dropped),
+ * });
+ *
+ * writer.write('{"method":"GET","url":"/api/books"}\n');
+ * // Written to ./logs/requests-2026-10-19.log
+ * await writer.close();
+ */
+export class BufferedFileWriter {
+  private queue: QueuedEntry[] = [];
+  private queuedSize = 0;
+  private timer?: NodeJS.Timeout;
+  private retentionTimer?: NodeJS.Timeout;
+  private stream?: fs.WriteStream;
+  private activePath?: string;
+  private size = 0;
+  private headerSize = 0;
+  private pending: Promise<void> = Promise.resolve();
+  private maintenance: Promise<void> = Promise.resolve();
+  private readonly recoveredPaths = new Set<string>();
+  private header?: (created: Date) => string;
+  private closed = false;
+
+  constructor(
+    private readonly logFilePath: string,
+    private readonly options: FileWriterOptions
+  ) {}
+
+  /**
+   * Queues a formatted entry for writing. Never blocks and never throws.
+   *
+   * @param formattedEntry - The formatted log line, including its trailing newline
+   */
+  write(formattedEntry: string): void {
+    if (this.closed) {
+      this.options.onError(
+        Object.assign(new Error(`Log writer for ${this.logFilePath} is closed.`), { code: 'ERR_WRITER_CLOSED' }),
+        1
+      );
+      return;
+    }
+
+    this.queue.push({ text: formattedEntry, time: Date.now() });
+    this.queuedSize += formattedEntry.length;
+
+    if (this.queuedSize >= this.options.maxBufferSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.options.flushInterval);
+    }
+  }
+
+  /**
+   * Sets the header written at the top of each new file.
+   *
+   * @param header - Returns the header lines, with trailing newline, for a file created at the given time
+   */
+  setHeader(header: (created: Date) => string): void {
+    this.header = header;
+  }
+
+  /**
+   * Writes all queued entries to disk.
+   *
+   * @returns Promise that resolves once every entry queued so far has been
+   * written (or reported as failed)
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.queue.length > 0) {
+      const batch = this.queue;
+      this.queue = [];
+      this.queuedSize = 0;
+      this.pending = this.pending.then(() => this.writeBatch(batch));
+    }
+
+    return this.pending;
+  }
+
+  /**
+   * Flushes queued entries, waits for pending compression and retention work,
+   * and closes the underlying stream. Entries written after `close()` are
+   * reported through `onError` and dropped.
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    this.closed = true;
+
+    if (this.retentionTimer) {
+      clearInterval(this.retentionTimer);
+      this.retentionTimer = undefined;
+    }
+
+    await this.closeStream();
+    await this.maintenance;
+  }
+
+  private async writeBatch(batch: QueuedEntry[]): Promise<void> {
+    const progress = { written: 0 };
+
+    try {
+      // Consecutive entries for the same period go to the same file
+      let runStart = 0;
+      let runPath = this.resolvePath(batch[0].time);
+
+      for (let index = 1; index <= batch.length; index++) {
+        const entryPath = index < batch.length ? this.resolvePath(batch[index].time) : undefined;
+        if (entryPath === runPath) {
+          continue;
+        }
+
+        await this.writeEntries(runPath, batch.slice(runStart, index), progress);
+        runStart = index;
+        runPath = entryPath as string;
+      }
+    } catch (error) {
+      this.discardStream();
+      this.options.onError(error as NodeJS.ErrnoException, batch.length - progress.written);
+    }
+  }
+
+  private async writeEntries(targetPath: string, entries: QueuedEntry[], progress: { written: number }): Promise<void> {
+    let stream = await this.openStream(targetPath);
+
+    if (!this.options.maxFileSize) {
+      await this.writeChunk(stream, entries.map((entry) => entry.text));
+      progress.written += entries.length;
+      return;
+    }
+
+    // Split at entry boundaries so no file grows past the limit; a file
+    // holding only its header always takes at least one entry
+    let chunk: string[] = [];
+    let chunkBytes = 0;
+
+    for (const { text } of entries) {
+      const entryBytes = Buffer.byteLength(text);
+
+      if (this.size + chunkBytes > this.headerSize && this.size + chunkBytes + entryBytes > this.options.maxFileSize) {
+        await this.writeChunk(stream, chunk, chunkBytes);
+        progress.written += chunk.length;
+        chunk = [];
+        chunkBytes = 0;
+        stream = await this.rotate(targetPath);
+      }
+
+      chunk.push(text);
+      chunkBytes += entryBytes;
+    }
+
+    await this.writeChunk(stream, chunk, chunkBytes);
+    progress.written += chunk.length;
+  }
+
+  private async writeChunk(stream: fs.WriteStream, entries: string[], bytes = 0): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await writeToStream(stream, entries.join('')).catch((error) => {
+      throw toLogFileError(error, this.activePath ?? this.logFilePath);
+    });
+    this.size += bytes;
+  }
+
+  private resolvePath(time: number): string {
+    return resolveLogFilePath(this.logFilePath, this.options.rotationFrequency, time);
+  }
+
+  /**
+   * Moves the full log file aside, queues it for compression and opens a fresh file.
+   * If the rename fails, writing continues in the current file.
+   */
+  private async rotate(targetPath: string): Promise<fs.WriteStream> {
+    await this.closeStream();
+
+    const staging = stagingPath(targetPath);
+    try {
+      await fs.promises.rename(targetPath, staging);
+      this.scheduleCompression(staging, targetPath);
+    } catch (error) {
+      this.options.onError(toLogFileError(error, targetPath), 0);
+    }
+
+    return this.openStream(targetPath);
+  }
+
+  private scheduleCompression(staging: string, targetPath: string): void {
+    this.scheduleMaintenance(() => compressRotatedFile(staging, targetPath, this.options.maxFiles), staging);
+  }
+
+  private scheduleRetentionSweep(): void {
+    const { rotationFrequency, retentionDays } = this.options;
+    if (rotationFrequency === 'none' || !retentionDays) {
+      return;
+    }
+
+    this.scheduleMaintenance(() => removeExpiredLogFiles(this.logFilePath, rotationFrequency, retentionDays), this.logFilePath);
+  }
+
+  /**
+   * Runs background file work (compression, retention) one task at a time,
+   * off the write path. Failures are reported and never lose entries.
+   */
+  private scheduleMaintenance(task: () => Promise<unknown>, subject: string): void {
+    this.maintenance = this.maintenance.then(async () => {
+      try {
+        await task();
+      } catch (error) {
+        this.options.onError(toLogFileError(error, subject), 0);
+      }
+    });
+  }
+
+  private async openStream(targetPath: string): Promise<fs.WriteStream> {
+    if (this.stream && !this.stream.destroyed && this.activePath === targetPath) {
+      return this.stream;
+    }
+
+    // A new period (or the first write): leave the previous file behind
+    await this.closeStream();
+    await ensureLogDirectory(targetPath);
+
+    let stream: fs.WriteStream;
+    try {
+      stream = fs.createWriteStream(targetPath, { flags: 'a', encoding: 'utf8' });
+
+      // Errors surface through the pending write; this listener only prevents
+      // an unhandled 'error' event from crashing the process.
+      const opened = stream;
+      stream.on('error', () => {
+        if (this.stream === opened) {
+          this.stream = undefined;
+        }
+      });
+
+      if (stream.pending) {
+        await once(stream, 'ready');
+      }
+
+      this.stream = stream;
+      this.size = await currentFileSize(targetPath);
+    } catch (error) {
+      throw toLogFileError(error, targetPath);
+    }
+
+    // A file with no content yet starts with the format's header
+    this.headerSize = 0;
+    if (this.header && this.size === 0) {
+      const header = this.header(new Date());
+      await writeToStream(stream, header).catch((error) => {
+        throw toLogFileError(error, targetPath);
+      });
+      this.size = this.headerSize = Buffer.byteLength(header);
+    }
+
+    const periodChanged = this.activePath !== targetPath;
+    this.activePath = targetPath;
+
+    // Finish compressing files a previous process rotated but did not archive
+    if (this.options.maxFileSize && !this.recoveredPaths.has(targetPath)) {
+      this.recoveredPaths.add(targetPath);
+      for (const staging of await findPendingRotations(targetPath)) {
+        this.scheduleCompression(staging, targetPath);
+      }
+    }
+
+    // Sweep expired files at startup, at each new period, and on a schedule
+    if (periodChanged) {
+      this.scheduleRetentionSweep();
+    }
+    if (this.options.retentionDays && this.options.rotationFrequency !== 'none' && !this.retentionTimer) {
+      this.retentionTimer = setInterval(() => this.scheduleRetentionSweep(), RETENTION_SWEEP_INTERVAL);
+      this.retentionTimer.unref();
+    }
+
+    return stream;
+  }
+
+  private async closeStream(): Promise<void> {
+    const stream = this.stream;
+    this.stream = undefined;
+
+    if (stream && !stream.destroyed) {
+      await new Promise<void>((resolve) => {
+        stream.once('close', resolve);
+        stream.end();
+      });
+    }
+  }
+
+  private discardStream(): void {
+    const stream = this.stream;
+    this.stream = undefined;
+    stream?.destroy();
+  }
+}
+
+/**
+ * Writes a chunk to a stream and resolves once it has been handed to the OS.
+ *
+ * @param stream - The destination stream
+ * @param data - The data to write
+ */
+function writeToStream(stream: NodeJS.WritableStream, data: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.write(data, (error?: Error | null) => (error ? reject(error) : resolve()));
+  });
+}
+
+/**
+ * Returns the current size of a file in bytes, or 0 if it does not exist yet.
+ *
+ * @param filePath - Path of the file
+ */
+async function currentFileSize(filePath: string): Promise<number> {
+  try {
+    return (await fs.promises.stat(filePath)).size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Ensures the log directory exists, creating it recursively if necessary.
+ *
+ * Extracts the directory path from the log file path and creates all necessary
+ * parent directories. Handles common file system errors with descriptive messages:
+ * - EEXIST: Directory already exists (no action needed)
+ * - EACCES: Permission denied
+ * - ENOSPC: No space left on device
+ *
+ * @param logFilePath - Full path to the log file
+ * @throws Error if directory creation fails, with the original error code preserved
+ *
+ * @example
+ * await ensureLogDirectory('./logs/requests.log');
+ * // Creates './logs' directory if it doesn't exist
+ */
+export async function ensureLogDirectory(logFilePath: string): Promise<void> {
+  const logDir = path.dirname(logFilePath);
+
+  try {
+    // Create directory recursively if it doesn't exist
+    await fs.promises.mkdir(logDir, { recursive: true });
+  } catch (error) {
+    const nodeError = error as NodeJS.ErrnoException;
+
+    // EEXIST error means directory already exists - this is fine
+    if (nodeError.code === 'EEXIST') {
+      return;
+    }
+
+    // Handle specific file system errors with descriptive messages
+    if (nodeError.code === 'EACCES') {
+      throw withCode(`Permission denied: Cannot create log directory at ${logDir}. Check file system permissions.`, nodeError);
+    }
+
+    if (nodeError.code === 'ENOSPC') {
+      throw withCode(`No space left on device: Cannot create log directory at ${logDir}.`, nodeError);
+    }
+
+    // Re-throw other errors with enhanced context
+    throw withCode(`Failed to create log directory at ${logDir}: ${nodeError.message}`, nodeError);
+  }
+}
+
+/**
+ * Converts a stream or file system error into a descriptive log file error.
+ *
+ * Common errors handled:
+ * - ENOENT: File or directory doesn't exist
+ * - EACCES: Permission denied
+ * - ENOSPC: No space left on device
+ *
+ * @param error - The raw error
+ * @param logFilePath - Path of the log file being written
+ * @returns Error with a descriptive message and the original `code`
+ */
+function toLogFileError(error: unknown, logFilePath: string): NodeJS.ErrnoException {
+  const nodeError = (error instanceof Error ? error : new Error(String(error))) as NodeJS.ErrnoException;
+
+  if (nodeError.code === 'ENOENT') {
+    return withCode(`Log file path does not exist: ${logFilePath}. Failed to create directory structure.`, nodeError);
+  }
+
+  if (nodeError.code === 'EACCES') {
+    return withCode(`Permission denied: Cannot write to log file at ${logFilePath}. Check file system permissions.`, nodeError);
+  }
+
+  if (nodeError.code === 'ENOSPC') {
+    return withCode(`No space left on device: Cannot write to log file at ${logFilePath}.`, nodeError);
+  }
+
+  return withCode(`Failed to write to log file at ${logFilePath}: ${nodeError.message}`, nodeError);
+}
+
+/**
+ * Creates an Error with the given message that keeps the cause's error code.
+ */
+function withCode(message: string, cause: NodeJS.ErrnoException): NodeJS.ErrnoException {
+  return Object.assign(new Error(message), { code: cause.code });
+}
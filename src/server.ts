@@ -4,7 +4,7 @@
  * Starts the Express application and listens on the configured port
  */
 
-import app from './app';
+import app, { requestLogger } from './app';
 
 const PORT = process.env.PORT || 3000;
 
@@ -23,8 +23,11 @@ const server = app.listen(PORT, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
-  server.close(() => {
+  server.close(async () => {
     console.log('HTTP server closed');
+
+    // Write any buffered log entries before the process exits
+    await requestLogger.close();
   });
 });
 